@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+// scripts/snapshot.mjs
+// Снимки вкладок по расписанию (cron, Планировщик задач) — то же, что кнопка «Снимок» в интерфейсе.
+// Только для бэкенда Apps Script: данные локального бэкенда живут в браузере, отсюда до них не добраться.
+//
+//   node --env-file=.env scripts/snapshot.mjs <лист> [<лист>…]
+//   0 9 * * 1  cd /path/to/app && node --env-file=.env scripts/snapshot.mjs Курсы >> snapshots.log 2>&1
+//
+// Нужен VITE_GAS_URL (тот же, что у приложения) и вход, как у пользователя: GAS_TOKEN — готовый токен
+// служебной учётной записи, или GAS_LOGIN и GAS_PASSWORD — тогда токен берём через action=login.
+// Учётной записи нужна роль editor на снимаемых вкладках.
+
+const url = process.env.VITE_GAS_URL;
+const login = process.env.GAS_LOGIN || '';
+const password = process.env.GAS_PASSWORD || '';
+const tabs = process.argv.slice(2);
+
+if (!url || tabs.length === 0 || (!process.env.GAS_TOKEN && !(login && password))) {
+  console.error('Использование: VITE_GAS_URL=… GAS_TOKEN=… node scripts/snapshot.mjs <лист> [<лист>…]');
+  console.error('          или: VITE_GAS_URL=… GAS_LOGIN=… GAS_PASSWORD=… node scripts/snapshot.mjs <лист> [<лист>…]');
+  process.exit(2);
+}
+
+async function post(body) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain' }, // под parseBody() в Apps Script
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`POST ${res.status}`);
+  return res.json();
+}
+
+let token = process.env.GAS_TOKEN || '';
+if (!token) {
+  try {
+    const json = await post({ action: 'login', login, password });
+    if (!json?.ok || !json.session?.token) throw new Error(json?.error === 'INVALID_CREDENTIALS' ? 'неверный GAS_LOGIN или GAS_PASSWORD' : json?.error || 'login error');
+    token = json.session.token;
+  } catch (e) {
+    console.error(`Вход: ${e?.message || e}`);
+    process.exit(1);
+  }
+}
+
+const name = `Авто ${new Date().toLocaleDateString('ru-RU')}`;
+let failed = 0;
+
+for (const tab of tabs) {
+  try {
+    const json = await post({ action: 'createSnapshot', tab, name, createdBy: 'расписание', token });
+    if (!json?.ok) {
+      const error = String(json?.error || 'createSnapshot error');
+      if (error.toUpperCase().includes('UNAUTHORIZED')) throw new Error('UNAUTHORIZED — токен не принят: проверь GAS_TOKEN или GAS_LOGIN/GAS_PASSWORD');
+      if (error.toUpperCase() === 'FORBIDDEN') throw new Error(`FORBIDDEN — ${json.message || 'у учётной записи нет прав на вкладку'}`);
+      throw new Error(error);
+    }
+    console.log(`${tab}: ${json.snapshot?.name ?? name} (${json.snapshot?.id ?? '?'})`);
+  } catch (e) {
+    failed++;
+    console.error(`${tab}: ${e?.message || e}`);
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import { AuthError } from "./api";
+import { auth, useAuth } from "./auth";
+import { outbox } from "./outbox";
+
+type AuthGateProps = {
+  children: React.ReactNode;
+};
+
+export const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const { session, checking, expired } = useAuth();
+  const [login, setLogin] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // без сессии запись падала с UNAUTHORIZED — после входа отправляем очередь заново;
+  // outbox отправит только записи вошедшего, записи другого пользователя дождутся его входа
+  useEffect(() => {
+    if (session) void outbox.retryAll();
+  }, [session?.token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await auth.login({ login, password });
+      setPassword("");
+    } catch (err: any) {
+      setError(err instanceof AuthError ? err.message : `Не удалось войти: ${err?.message || String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (checking) {
+    // сохранённая сессия проверяется — это доли секунды, форму входа не мигаем
+    return null;
+  }
+
+  if (session) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-100">
+      <div className="bg-white shadow-lg rounded-2xl p-6 w-full max-w-sm">
+        <h1 className="text-xl font-semibold mb-4 text-center">
+          Вход в матрицу
+        </h1>
+        {expired && (
+          <div className="text-sm text-amber-700 bg-amber-50 rounded-md px-3 py-2 mb-4">
+            Сессия истекла — войдите снова. Несохранённые правки отправятся после входа.
+          </div>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm mb-1" htmlFor="login">
+              Логин
+            </label>
+            <input
+              id="login"
+              className="w-full border rounded-md px-3 py-2 outline-none focus:ring focus:ring-blue-200"
+              value={login}
+              onChange={(e) => setLogin(e.target.value)}
+              autoComplete="username"
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-1" htmlFor="password">
+              Пароль
+            </label>
+            <input
+              id="password"
+              type="password"
+              className="w-full border rounded-md px-3 py-2 outline-none focus:ring focus:ring-blue-200"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+          {error && (
+            <div className="text-sm text-red-600">
+              {error}
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={busy || !login.trim() || !password}
+            className="w-full rounded-md px-3 py-2 font-medium bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {busy ? "Входим…" : "Войти"}
+          </button>
+          {auth.kind === "local" && (
+            <p className="text-xs text-muted-foreground text-center">
+              Локальный режим: учётная запись создаётся при первом входе и хранится только в этом браузере.
+            </p>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
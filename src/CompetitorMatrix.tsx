@@ -1,183 +1,117 @@
-import React, { useMemo, useState, useEffect } from "react";
+import React, { useCallback, useMemo, useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Card, CardContent } from "@/components/ui/card";
-import { Maximize2, Edit3, ChevronDown, ChevronRight, ChevronLeft, Plus, EyeOff } from "lucide-react";
-import { getCells } from "@/api";
+import { Maximize2, Edit3, ChevronDown, ChevronRight, Plus, EyeOff, Loader2, AlertTriangle, Check, RefreshCw, History, GripVertical, Pencil, ArchiveRestore, ArrowUp, ArrowDown, Trash2, Undo2, FolderPlus, Scale, ArrowDownWideNarrow, Upload, FileText, Search, X, Columns2, Building2, Camera, GalleryHorizontal, LogOut, Lock, Shield, ListChecks, Eye, Link2, Redo2 } from "lucide-react";
+import { dataSource, type Tab, type Criterion, type Course, type Cell, type CellImage, type CellHistoryEntry, type CellValue, type MatrixData, type WeightProfile, type Competitor, type Snapshot, type TabAccess } from "@/api";
+import { auth, useAuth } from "@/auth";
+import { ROLE_LABELS, canAdmin, canEdit, cellEditDenial, memberOf, roleOf } from "@/access";
+import { outbox, useOutbox, cellKey, cellSyncStatus, pendingCellEntry, type CellSyncStatus } from "@/outbox";
+import { ConflictView, mergeCellDrafts } from "@/components/ConflictView";
+import { Img, normalizeImageUrl } from "@/components/Img";
+import { CellHistory } from "@/components/CellHistory";
+import { CourseDialog } from "@/components/CourseDialog";
+import { AccessDialog } from "@/components/AccessDialog";
+import { ProgressView } from "@/components/ProgressView";
+import { CriterionDialog } from "@/components/CriterionDialog";
+import { ValueEditor, ValueView } from "@/components/CellValue";
+import { validateValue } from "@/values";
+import { sortByOrder, groupCriteria, COURSE_CRIT_ID, COURSE_GROUP, MISC_GROUP } from "@/matrixOps";
+import { DEFAULT_PROFILE, MAX_SCORE, autoScore, cellScore, computeScores, formatScore } from "@/scoring";
+import { WeightsDialog } from "@/components/WeightsDialog";
+import { ExportMenu, type ExportScope } from "@/components/ExportMenu";
+import { downloadBlob, exportFileName, exportTable, type ExportFormat } from "@/export";
+import { ImportWizard } from "@/components/ImportWizard";
+import type { ImportChange } from "@/import";
+import { ReportView } from "@/components/ReportView";
+import { Highlight } from "@/components/Highlight";
+import { Markdown } from "@/components/Markdown";
+import { CompareView, COMPARE_MIN } from "@/components/CompareView";
+import { CompetitorProfile } from "@/components/CompetitorProfile";
+import { ImageListEditor } from "@/components/ImageListEditor";
+import { AnnotatedImg } from "@/components/Annotations";
+import { ImageViewer, type ImageViewerHandle } from "@/components/ImageViewer";
+import { VirtualGrid, type VirtualGridHandle, type VirtualRow } from "@/components/VirtualGrid";
+import { SnapshotView } from "@/components/SnapshotView";
+import { defaultSnapshotName, snapshotLabel } from "@/snapshots";
+import { EMPTY_FILTERS, isFilterActive, rowMatches, type MatrixFilters } from "@/search";
+import { formatRoute, isSameLocation, parseRoute, type MatrixRoute } from "@/route";
+import { EMPTY_UNDO, contentOf, dropStep, expectedBefore, recordStep, redoStep, sameContent, undoStep, type CellContent, type CellEdit, type UndoState } from "@/undo";
 
 
 // =================================================
 // Sheets‑driven прототип (упрощённая версия)
-// — всё загружается из Google Sheets
+// — всё загружается через MatrixDataSource (Google Sheets или локальный бэкенд, см. api.ts)
 // — никаких top‑level return/JSX, лишних dev‑вставок и незакрытых тегов
 // — просмотр изображений: большая картинка + ползунок + стрелки + «Открыть оригинал»
 // =================================================
 
-// === Конфигурация ===
-const SHEET_ID = "1F005rrzv-PK78XgrYxI6UvoDm3n72LCU6CTrKf-zx-I"; // Google Sheet
-const APPS_SCRIPT_URL: string | null = (import.meta as any).env?.VITE_GAS_URL ?? null; // WebApp для записи (из .env)
-const TABS_INDEX_SHEET = "__tabs"; // индекс вкладок (колонки: sheet, label[, id])
+type CriterionActions = { onEdit: () => void; onMoveUp?: () => void; onMoveDown?: () => void; onDelete: () => void };
 
-// === Типы ===
-type Criterion = { id: string; name: string; group?: string; description?: string; filledBy?: string };
-type Course = { id: string; name: string };
-type Cell = { courseId: string; criterionId: string; text?: string; images?: { url: string; caption?: string }[] };
-
-type MatrixData = { criteria: Criterion[]; courses: Course[]; cells: Cell[] };
-
-type Tab = { id: string; label: string };
-
-type SheetRow = Record<string, string>;
-
-// === Константы матрицы ===
-const COURSE_CRIT_ID = "course_meta"; // несворачиваемый «Курс»
-const COURSE_GROUP = "0. Курс";      // группа для «Курс» (заголовок не показываем в UI)
-const MISC_GROUP   = "Прочие критерии"; // куда падают новые критерии
-
-// === Утилиты ===
-const getApiKey = () => (typeof window !== "undefined" && localStorage.getItem("gs_api_key")) || "";
-const setApiKey = (v: string) => { try { if (typeof window !== "undefined") localStorage.setItem("gs_api_key", v || ""); } catch { /* no‑op */ } };
-
-function gvizUrl(sheet: string) {
-  return `https://docs.google.com/spreadsheets/d/${SHEET_ID}/gviz/tq?tqx=out:json&sheet=${encodeURIComponent(sheet)}`;
-}
-
-async function fetchWithTimeout(resource: string, opts: RequestInit = {}, timeoutMs = 12000) {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeoutMs);
-  try { return await fetch(resource, { ...opts, signal: controller.signal }); }
-  finally { clearTimeout(id); }
-}
-
-async function fetchGViz(sheet: string): Promise<SheetRow[]> {
-  const res = await fetchWithTimeout(gvizUrl(sheet), { credentials: "omit" });
-  if (!res.ok) throw new Error(`Failed to fetch sheet ${sheet}: ${res.status}`);
-  const txt = await res.text();
-  const start = txt.indexOf("{");
-  const end = txt.lastIndexOf("}");
-  if (start === -1 || end === -1) throw new Error("GViz: JSON not found");
-  const json = JSON.parse(txt.slice(start, end + 1));
-  const rows: any[] = json.table?.rows || [];
-  const matrix: string[][] = rows.map((r: any) => (r.c || []).map((c: any) => (c && (c.f ?? c.v)) ?? ""));
-  const header = (matrix[0] || []).map((h) => String(h).trim());
-  const dataRows = matrix.slice(1).filter((r) => r.some((v) => String(v).trim().length > 0));
-  return dataRows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i] ?? ""]) as [string, string][]));
-}
-
-function extractDriveId(u: string): string | null {
-  try {
-    const m1 = u.match(/\/file\/d\/([^/]+)/); if (m1) return m1[1];
-    const m2 = u.match(/[?&]id=([^&]+)/);      if (m2) return m2[1];
-  } catch { /* no‑op */ }
-  return null;
-}
-
-// Нормализуем ссылки: прямые URL оставляем как есть,
-// Google Drive вида /file/d/.. или ?id=.. превращаем в прямой CDN превью.
-function normalizeImageUrl(u: string): string {
-  try {
-    const url = new URL(u);
-    if (url.hostname.includes("drive.google.com")) {
-      // извлечь id из /file/d/<id>/... или из ?id=<id>
-      const byPath = url.pathname.split("/d/")[1]?.split("/")[0];
-      const byQuery = url.searchParams.get("id");
-      const id = byPath || byQuery || "";
-      // максимально «крупный» превью CDN Google
-      return id ? `https://lh3.googleusercontent.com/d/${id}=s2048` : u;
-    }
-    return u;
-  } catch {
-    return u;
-  }
-}
-
-function rowsToMatrix(rows: SheetRow[]): MatrixData {
-  const allKeys = new Set<string>();
-  rows.forEach((r) => Object.keys(r).forEach((k) => allKeys.add(k)));
-  const courseIds = Array.from(allKeys)
-    .filter((k) => k.endsWith("_text"))
-    .map((k) => k.slice(0, -"_text".length))
-    .sort((a, b) => {
-      const na = parseInt(a.replace(/\D+/g, "")) || 0;
-      const nb = parseInt(b.replace(/\D+/g, "")) || 0;
-      return na - nb || a.localeCompare(b);
-    });
-  const courses: Course[] = courseIds.map((cid, i) => ({ id: cid, name: `Курс ${i + 1}` }));
-
-  const criteria: Criterion[] = [];
-  const cells: Cell[] = [];
-  rows.forEach((r, idx) => {
-    const group = String(r.section || "").trim();
-    const name = String(r.criterion || "").trim();
-    const description = String(r.description || "").trim() || undefined;
-    const filledBy = String(r.filled_by || "").trim() || undefined;
-    let id = String(r.criterion_id || "").trim();
-    if (!name) return;
-    const isCourseRow = group === COURSE_GROUP && name === "Курс";
-    if (isCourseRow) id = COURSE_CRIT_ID; else if (!id) id = `gen-${idx + 1}`;
-    criteria.push({ id, name, group: isCourseRow ? COURSE_GROUP : (group || undefined), description, filledBy });
-
-    courseIds.forEach((cid) => {
-      const text = String((r as any)[`${cid}_text`] || "");
-      const imagesRaw = String((r as any)[`${cid}_images`] || "");
-      const images = imagesRaw.split(/\r?\n/).map((s) => s.trim()).filter(Boolean).map((url) => ({ url: normalizeImageUrl(url) }));
-      if (text || images.length) cells.push({ courseId: cid, criterionId: id, text: text || undefined, images });
-    });
-  });
-  return { criteria, courses, cells };
-}
-
-function rowsToTabs(rows: SheetRow[]): { tabs: Tab[]; mapping: Record<string, string> } {
-  const out: Tab[] = [];
-  const map: Record<string, string> = {};
-  for (const r of rows) {
-    const sheet = String(r.sheet || "").trim();
-    const label = String(r.label || sheet || "").trim();
-    if (!sheet || !label) continue;
-    const id = String((r as any).id || sheet);
-    out.push({ id, label });
-    map[id] = sheet;
-  }
-  return { tabs: out, mapping: map };
-}
-
-function CriterionHeader({ k }: { k: Criterion }) {
+function CriterionHeader({ k, actions, highlight }: { k: Criterion; actions?: CriterionActions; highlight?: string }) {
   return (
-    <div className="border-r px-2 py-3 text-sm">
-      <div className="font-medium">{k.name}</div>
-      {k.description && <div className="text-muted-foreground text-xs whitespace-pre-line">{k.description}</div>}
-      {k.filledBy && <div className="text-xs italic">Заполняет: {k.filledBy}</div>}
+    <div className="group/crit border-r px-2 py-3 text-sm h-full">
+      <div className="flex items-start gap-1">
+        <div className="font-medium flex-1"><Highlight text={k.name} query={highlight} /></div>
+        {actions && (
+          <div className="flex shrink-0 opacity-0 group-hover/crit:opacity-100 transition-opacity">
+            <Button size="icon" variant="ghost" title="Выше" onClick={actions.onMoveUp} disabled={!actions.onMoveUp}><ArrowUp className="h-3.5 w-3.5" /></Button>
+            <Button size="icon" variant="ghost" title="Ниже" onClick={actions.onMoveDown} disabled={!actions.onMoveDown}><ArrowDown className="h-3.5 w-3.5" /></Button>
+            <Button size="icon" variant="ghost" title="Изменить критерий" onClick={actions.onEdit}><Pencil className="h-3.5 w-3.5" /></Button>
+            <Button size="icon" variant="ghost" title="Удалить критерий" onClick={actions.onDelete}><Trash2 className="h-3.5 w-3.5" /></Button>
+          </div>
+        )}
+      </div>
+      {k.description && <div className="text-muted-foreground text-xs whitespace-pre-line"><Highlight text={k.description} query={highlight} /></div>}
+      {k.filledBy && <div className="text-xs italic">Заполняет: {k.filledBy}{k.filledByOnly && <Lock className="inline h-3 w-3 ml-1 -mt-0.5" aria-label="править может только эта команда" />}</div>}
     </div>
   );
 }
 
-function Img({ url, alt, className }: { url: string; alt?: string; className?: string }) {
-  const [ok, setOk] = React.useState(true);
-  const src = normalizeImageUrl(url);
-  return ok ? (
-    <img src={src} alt={alt || "image"} className={className || "max-w-full max-h-64 rounded border"} loading="lazy" decoding="async" onError={() => setOk(false)} />
-  ) : (
-    <a href={url} target="_blank" rel="noreferrer" className="inline-flex items-center justify-center rounded border px-2 py-1 text-[11px] leading-4 bg-red-50 text-red-700 hover:bg-red-100">⚠︎ Открыть оригинал</a>
-  );
+function SyncBadge({ status }: { status?: CellSyncStatus }) {
+  if (status === "pending") return <span className="inline-flex items-center gap-1 text-[11px] text-amber-700"><Loader2 className="h-3 w-3 animate-spin" /> сохраняется</span>;
+  if (status === "conflict") return <span className="inline-flex items-center gap-1 text-[11px] text-orange-700"><AlertTriangle className="h-3 w-3" /> конфликт</span>;
+  if (status === "failed") return <span className="inline-flex items-center gap-1 text-[11px] text-red-700"><AlertTriangle className="h-3 w-3" /> не сохранено</span>;
+  if (status === "saved") return <span className="inline-flex items-center gap-1 text-[11px] text-green-700"><Check className="h-3 w-3" /> сохранено</span>;
+  return null;
 }
 
-function CellCardView({ cell, onOpen, onEdit }: { cell?: Cell; onOpen: () => void; onEdit: () => void }) {
+// onEdit нет — правка недоступна совсем (просмотр), editDenied — кнопка видна, но заблокирована с причиной;
+// focused — ячейка под курсором клавиатуры, onSelect ставит курсор по клику, onActivate — двойной клик (правка в сетке)
+function CellCardView({ cell, sync, score, highlight, editDenied, focused, onSelect, onActivate, onOpen, onEdit }: { cell?: Cell; sync?: CellSyncStatus; score?: number; highlight?: string; editDenied?: string | null; focused?: boolean; onSelect?: () => void; onActivate?: () => void; onOpen: () => void; onEdit?: () => void }) {
   return (
-    <div className="p-2 border">
+    <div
+      className={"p-2 border h-full " + (focused ? "ring-2 ring-inset ring-blue-500" : "")}
+      onMouseDown={onSelect}
+      onDoubleClick={(e) => { if (!(e.target as HTMLElement).closest("button, a")) onActivate?.(); }}
+    >
       <Card>
         <CardContent className="p-2 text-sm">
-          {cell?.text ? <div className="mb-2 line-clamp-3">{cell.text}</div> : <span className="text-muted-foreground">Нет данных</span>}
+          {sync && <div className="mb-1"><SyncBadge status={sync} /></div>}
+          {score !== undefined && (
+            <div className="float-right ml-2 rounded bg-gray-100 px-1.5 py-0.5 text-xs tabular-nums" title={cell?.score !== undefined ? "Балл выставлен вручную" : "Балл посчитан по значению"}>
+              {formatScore(score)}{cell?.score !== undefined && "*"}
+            </div>
+          )}
+          {cell?.value && <div className="mb-1"><ValueView value={cell.value} /></div>}
+          {cell?.text ? <Markdown text={cell.text} highlight={highlight} className="mb-2 line-clamp-3" /> : !cell?.value && <span className="text-muted-foreground">Нет данных</span>}
           {cell?.images && cell.images.length > 0 && (
             <div className="flex flex-wrap gap-1 mt-2">
               {cell.images.map((img, i) => (
-                <Img key={i} url={img.url} alt={img.caption || "preview"} className="h-12 w-12 object-cover rounded" />
+                <div key={i} title={img.caption}>
+                  <AnnotatedImg image={img} className="h-12 w-12 rounded" fit="cover" compact lazy />
+                </div>
               ))}
             </div>
           )}
           <div className="flex gap-2 mt-2">
             <Button size="sm" variant="outline" onClick={onOpen}><Maximize2 className="h-4 w-4" /></Button>
-            <Button size="sm" variant="secondary" onClick={onEdit}><Edit3 className="h-4 w-4" /></Button>
+            {onEdit && (
+              <span title={editDenied || undefined}>
+                <Button size="sm" variant="secondary" onClick={onEdit} disabled={!!editDenied}><Edit3 className="h-4 w-4" /></Button>
+              </span>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -185,13 +119,91 @@ function CellCardView({ cell, onOpen, onEdit }: { cell?: Cell; onOpen: () => voi
   );
 }
 
-function CourseHeaderCell({ cLabel, onHide }: { cLabel: string; onHide: () => void }) {
+// Правка текста прямо в сетке: Enter — сохранить и вниз, Tab — к следующему курсу, Shift+Enter — перенос строки, Esc — отмена
+function InlineCellEditor({ initial, onCommit, onCancel }: { initial: string; onCommit: (text: string, move?: GridMove) => void; onCancel: () => void }) {
+  const [text, setText] = useState(initial);
+  const done = useRef(false); // Enter/Tab/Esc и следом blur — сохраняем один раз
+  const finish = (fn: () => void) => { if (!done.current) { done.current = true; fn(); } };
   return (
-    <div className="font-medium border-b px-2 py-2 flex items-center justify-between gap-2">
-      <span>{cLabel}</span>
-      <Button size="sm" variant="ghost" title="Скрыть курс" onClick={onHide}>
-        <EyeOff className="h-4 w-4" />
-      </Button>
+    <div className="p-2 border h-full ring-2 ring-inset ring-blue-500 flex flex-col gap-1 bg-white">
+      <textarea
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onFocus={(e) => e.currentTarget.setSelectionRange(e.currentTarget.value.length, e.currentTarget.value.length)}
+        onKeyDown={(e) => {
+          e.stopPropagation(); // стрелки и прочее — самому полю, не навигации сетки
+          if (e.key === "Escape") { e.preventDefault(); finish(onCancel); }
+          else if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); finish(() => onCommit(text, "down")); }
+          else if (e.key === "Tab") { e.preventDefault(); finish(() => onCommit(text, e.shiftKey ? "prev" : "next")); }
+        }}
+        onBlur={() => finish(() => onCommit(text))}
+        className="flex-1 min-h-[96px] border rounded-md p-1 text-sm resize-none"
+      />
+      <div className="text-[11px] text-muted-foreground">Enter — сохранить, Shift+Enter — новая строка, Esc — отмена</div>
+    </div>
+  );
+}
+
+type GridMove = "down" | "next" | "prev";
+
+// клавиши в полях ввода — их собственные (стрелки, Ctrl+Z и т. д.)
+const isTextInput = (target: EventTarget | null) => target instanceof HTMLElement && !!target.closest("input, textarea, select, [contenteditable='true']");
+
+const critRowKey = (criterionId: string) => `crit:${criterionId}`;
+
+// авто-имена «Курс N» от старых бэкендов не считаем настоящими — берём текст из строки «Курс»
+const isPlaceholderCourseName = (name?: string) => !name?.trim() || /^Курс \d+$/.test(name.trim());
+
+function CourseHeaderCell({ course, cLabel, dragOver, readOnly, onHide, onEdit, onProfile, onDragStart, onDragOver, onDrop, onDragEnd }: {
+  course: Course;
+  cLabel: string;
+  dragOver: boolean;
+  readOnly?: boolean; // роль «просмотр»: ни карточки, ни перетаскивания
+  onHide: () => void;
+  onEdit: () => void;
+  onProfile?: () => void; // есть, только если курс связан с конкурентом
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}) {
+  return (
+    <div
+      className={"font-medium border-b px-2 py-2 h-full flex items-center justify-between gap-2 " + (dragOver ? "border-l-4 border-l-blue-500" : "")}
+      draggable={!readOnly}
+      onDragStart={(e) => { e.dataTransfer.effectAllowed = "move"; onDragStart(); }}
+      onDragOver={(e) => { e.preventDefault(); onDragOver(); }}
+      onDrop={(e) => { e.preventDefault(); onDrop(); }}
+      onDragEnd={onDragEnd}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        {!readOnly && <GripVertical className="h-4 w-4 shrink-0 text-gray-400 cursor-grab" />}
+        {course.logo && <Img url={course.logo} alt="" className="h-6 w-6 shrink-0 object-contain rounded" />}
+        <div className="min-w-0">
+          {course.url ? (
+            <a href={course.url} target="_blank" rel="noreferrer" className="block truncate hover:underline" title={cLabel}>{cLabel}</a>
+          ) : (
+            <span className="block truncate" title={cLabel}>{cLabel}</span>
+          )}
+          {course.provider && <div className="text-xs font-normal text-muted-foreground truncate">{course.provider}</div>}
+        </div>
+      </div>
+      <div className="flex shrink-0">
+        {onProfile && (
+          <Button size="sm" variant="ghost" title="Профиль конкурента" onClick={onProfile}>
+            <Building2 className="h-4 w-4" />
+          </Button>
+        )}
+        {!readOnly && (
+          <Button size="sm" variant="ghost" title="Карточка курса" onClick={onEdit}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" title="Скрыть курс" onClick={onHide}>
+          <EyeOff className="h-4 w-4" />
+        </Button>
+      </div>
     </div>
   );
 }
@@ -208,12 +220,45 @@ export default function CompetitorMatrix() {
   const [open, setOpen] = useState<{ courseId: string; criterionId: string } | null>(null);
   const [edit, setEdit] = useState<{ courseId: string; criterionId: string } | null>(null);
   const [draftText, setDraftText] = useState("");
-  const [draftImages, setDraftImages] = useState<string>("");
+  const [draftPreview, setDraftPreview] = useState(false);
+  const [draftImages, setDraftImages] = useState<CellImage[]>([]);
+  const [draftValue, setDraftValue] = useState<CellValue | undefined>(undefined);
+  const [draftScore, setDraftScore] = useState(""); // ручной балл; пусто — считаем по значению
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [imagesBusy, setImagesBusy] = useState(false); // идёт загрузка скриншотов — сохранять рано
   const [collapsedGroups, setCollapsedGroups] = useState<Record<string, boolean>>({});
-  const [addCriterionOpen, setAddCriterionOpen] = useState(false);
-  const [newCriterion, setNewCriterion] = useState({ name: "", description: "", filledBy: "" });
+  const [criterionEdit, setCriterionEdit] = useState<{ criterion: Criterion; isNew: boolean } | null>(null);
+  const [deletedCriterion, setDeletedCriterion] = useState<Criterion | null>(null); // для «Отменить»
   const [hiddenCourses, setHiddenCourses] = useState<string[]>([]);
   const [viewerIndex, setViewerIndex] = useState(0);
+  const viewerRef = useRef<ImageViewerHandle>(null); // Esc в окне просмотра сначала сбрасывает масштаб
+  const [viewTab, setViewTab] = useState<"content" | "history">("content");
+  const [galleryMode, setGalleryMode] = useState(false); // в просмотре листаем скриншоты критерия по всем курсам
+  const [courseEdit, setCourseEdit] = useState<Course | null>(null);
+  const [dragCourse, setDragCourse] = useState<{ id: string; overId?: string } | null>(null);
+  const [weightsOpen, setWeightsOpen] = useState(false);
+  const [accessOpen, setAccessOpen] = useState(false);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE.id);
+  const [sortByScore, setSortByScore] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [filters, setFilters] = useState<MatrixFilters>(EMPTY_FILTERS);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null); // null — обычная сетка
+  const [progressOpen, setProgressOpen] = useState(false); // панель заполненности вместо сетки
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null); // открыт профиль конкурента вместо матрицы
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [snapshotView, setSnapshotView] = useState<{ asOf: string; against: string | null } | null>(null); // null — живая матрица
+  const [loadedTab, setLoadedTab] = useState(""); // вкладка, чьи данные уже на экране — до этого адрес не трогаем
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [cursor, setCursor] = useState<{ courseId: string; criterionId: string } | null>(null); // ячейка под курсором клавиатуры
+  const [inlineEdit, setInlineEdit] = useState<{ courseId: string; criterionId: string } | null>(null); // правка текста прямо в сетке
+  const [undoState, setUndoState] = useState<UndoState>(EMPTY_UNDO); // правки за сессию, по вкладке
+  const gridRef = useRef<VirtualGridHandle>(null);
+  // состояние из адреса, которое применим, когда загрузится его вкладка (первая загрузка, «назад/вперёд» на другую вкладку)
+  const pendingRoute = useRef<MatrixRoute | null>(parseRoute());
+  // скриншот из адреса для открываемой ячейки — иначе его сбросит эффект смены ячейки
+  const routeImage = useRef<{ key: string; index: number; gallery: boolean } | null>(null);
 
   const storageKey = (base: string) => `${base}:${activeTab || "__na__"}`;
 
@@ -222,13 +267,13 @@ export default function CompetitorMatrix() {
     let cancelled = false;
     (async () => {
       try {
-        const rows = await fetchGViz(TABS_INDEX_SHEET);
+        const t = await dataSource.listTabs();
         if (cancelled) return;
-        const { tabs: t, mapping } = rowsToTabs(rows);
         if (t.length === 0) throw new Error("Лист __tabs пустой");
         setTabs(t);
-        setTabToSheet(mapping);
-        if (!activeTab) setActiveTab(t[0].id);
+        setTabToSheet(Object.fromEntries(t.map((x) => [x.id, x.sheet])));
+        const wanted = pendingRoute.current?.tab;
+        if (!activeTab) setActiveTab(wanted && t.some((x) => x.id === wanted) ? wanted : t[0].id);
       } catch (e: any) {
         setLoadError(e?.message || String(e));
       }
@@ -236,6 +281,20 @@ export default function CompetitorMatrix() {
     return () => { cancelled = true; };
   }, []);
 
+  // конкуренты общие для всех вкладок — грузим один раз
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const list = await outbox.applyPendingCompetitors(await dataSource.listCompetitors());
+        if (!cancelled) setCompetitors(list);
+      } catch {
+        // без списка конкурентов матрица работает как раньше, просто без профилей
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
 useEffect(() => {
   if (!activeTab) return;
   let cancelled = false;
@@ -249,29 +308,33 @@ useEffect(() => {
         throw new Error(`Для вкладки ${activeTab} не найден лист в __tabs`);
       }
 
-      // Тянем данные напрямую из Apps Script, минуя gviz-кэш
-      const matrix = await getCells(sheetName);
+      // поверх данных бэкенда — ещё не отправленные правки из outbox
+      const matrix = await outbox.applyPending(sheetName, await dataSource.loadMatrix(sheetName));
       if (cancelled) return;
 
-      // Приводим картинки к текущему формату Cell.images: { url, caption? }[]
+      // ссылки Google Drive сразу переводим в прямые — так их видят и превью, и экспорт
       const cells: Cell[] = matrix.cells.map((cell) => ({
         ...cell,
-        images: (cell.images || []).map((url) => ({
-          url: normalizeImageUrl(url),
-        })),
+        images: (cell.images || []).map((img) => ({ ...img, url: normalizeImageUrl(img.url) })),
       }));
 
-      setData({
-        criteria: matrix.criteria,
-        courses: matrix.courses,
-        cells,
-      });
+      setData({ ...matrix, cells });
 
       const savedHidden = localStorage.getItem(storageKey("hiddenCourseIds"));
       setHiddenCourses(savedHidden ? JSON.parse(savedHidden) : []);
+      setActiveProfileId(localStorage.getItem(storageKey("weightProfile")) || DEFAULT_PROFILE.id);
       setCollapsedGroups({});
       setOpen(null);
       setEdit(null);
+      setCompareIds(null);
+      setSnapshotView(null);
+      setCursor(null);
+      setInlineEdit(null);
+      setUndoState(EMPTY_UNDO);
+      const route = pendingRoute.current;
+      pendingRoute.current = null;
+      if (route && (!route.tab || route.tab === activeTab)) applyRoute(route);
+      setLoadedTab(activeTab);
     } catch (e: any) {
       if (!cancelled) {
         setLoadError(e?.message || String(e));
@@ -289,8 +352,77 @@ useEffect(() => {
 }, [activeTab, tabToSheet]);
 
 
-  // Сброс индекса просмотрщика при смене ячейки
-  useEffect(() => { setViewerIndex(0); }, [open?.courseId, open?.criterionId]);
+  // Сброс индекса просмотрщика при смене ячейки (если ячейку открыли по ссылке — скриншот из ссылки)
+  useEffect(() => {
+    const image = open && routeImage.current?.key === `${open.courseId}|${open.criterionId}` ? routeImage.current : null;
+    routeImage.current = null;
+    setViewerIndex(image?.index ?? 0);
+    setViewTab("content");
+    setGalleryMode(!!image?.gallery);
+  }, [open?.courseId, open?.criterionId]);
+
+  // скрытые курсы помним по вкладке, но сохраняем только то, что пользователь скрыл или показал сам —
+  // набор из чужой ссылки или истории показываем, не трогая его настройку
+  const saveHidden = (next: string[]) => {
+    setHiddenCourses(next);
+    localStorage.setItem(storageKey("hiddenCourseIds"), JSON.stringify(next));
+  };
+
+  // === Адрес страницы ===
+  function applyRoute(route: MatrixRoute) {
+    if (route.hidden) setHiddenCourses(route.hidden);
+    setCollapsedGroups(Object.fromEntries(route.collapsed.map((g) => [g, true])));
+    setFilters(route.filters);
+    setOpen(route.open ?? null);
+    if (route.open) routeImage.current = { key: `${route.open.courseId}|${route.open.criterionId}`, index: route.image ?? 0, gallery: !!route.gallery };
+    // та же ячейка уже открыта — эффект смены ячейки не сработает, ставим сами
+    setViewerIndex(route.image ?? 0);
+    setGalleryMode(!!route.gallery);
+  }
+
+  const currentRoute: MatrixRoute = {
+    tab: activeTab || undefined,
+    open: open ?? undefined,
+    image: viewerIndex,
+    gallery: galleryMode,
+    filters,
+    hidden: hiddenCourses,
+    collapsed: Object.keys(collapsedGroups).filter((g) => collapsedGroups[g]),
+  };
+  const currentUrl = formatRoute(currentRoute);
+
+  useEffect(() => {
+    if (!activeTab || loadedTab !== activeTab) return;
+    if (currentUrl === window.location.pathname + window.location.search) return;
+    // новая вкладка или ячейка — шаг истории; фильтры, свёрнутые группы и прочее — правка текущего шага
+    if (isSameLocation(currentRoute, parseRoute())) window.history.replaceState(null, "", currentUrl);
+    else window.history.pushState(null, "", currentUrl);
+  }, [currentUrl, loadedTab]);
+
+  useEffect(() => {
+    const onPop = () => {
+      const route = parseRoute();
+      // записи истории пишет само приложение, а оно пишет hide всегда, когда что-то скрыто: нет hide — скрытых нет
+      route.hidden ??= [];
+      if (route.tab && route.tab !== activeTab && tabToSheet[route.tab]) {
+        pendingRoute.current = route;
+        setActiveTab(route.tab);
+      } else {
+        applyRoute(route);
+      }
+    };
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, [activeTab, tabToSheet]);
+
+  const copyLink = () => {
+    const url = window.location.origin + currentUrl;
+    const done = () => { setLinkCopied(true); window.setTimeout(() => setLinkCopied(false), 2000); };
+    const manual = () => window.prompt("Ссылка на ячейку", url);
+    // без доступа к буферу (http, старый браузер) — показываем ссылку, чтобы скопировали руками
+    if (navigator.clipboard) navigator.clipboard.writeText(url).then(done, manual);
+    else manual();
+  };
 
   // === Индексы/геттеры ===
   const cellIndex = useMemo(() => {
@@ -301,97 +433,672 @@ useEffect(() => {
     }
     return byCourse;
   }, [data.cells]);
-  const getCell = (courseId: string, criterionId: string): Cell | undefined => (cellIndex as any)[courseId]?.[criterionId];
+  const getCell = useCallback((courseId: string, criterionId: string): Cell | undefined => (cellIndex as any)[courseId]?.[criterionId], [cellIndex]);
+
+  // === Статус синхронизации (outbox) ===
+  const sync = useOutbox();
+  const user = useAuth().session?.user;
+  // права на вкладку; бэкенд проверяет то же самое, здесь — чтобы не показывать заведомо запрещённое
+  const role = roleOf(data.access, user?.id);
+  const editable = canEdit(role);
+  const isAdmin = canAdmin(role);
+  const editDenial = (criterionId: string) => cellEditDenial(data.access, user?.id, data.criteria.find((c) => c.id === criterionId));
+  const syncOf = (courseId: string, criterionId: string) => cellSyncStatus(sync, tabToSheet[activeTab], courseId, criterionId);
+  const pendingCount = sync.entries.filter((e) => e.status === "pending").length;
+  const failedCount = sync.entries.filter((e) => e.status === "failed").length;
+  const conflictCount = sync.entries.filter((e) => e.status === "conflict").length;
+
+  // последняя известная нам версия ячейки — от неё и считаем правку.
+  // Ячейки, которой у нас нет, для нас ещё нет и на бэкенде: 0 — если её успел создать кто-то другой, будет конфликт
+  const latestRevision = (courseId: string, criterionId: string) => {
+    const cell = getCell(courseId, criterionId);
+    const version = sync.versions[cellKey(tabToSheet[activeTab], courseId, criterionId)];
+    if (!cell && !version) return 0;
+    const revs = [cell?.revision, version?.revision].filter((r): r is number => r !== undefined);
+    return revs.length ? Math.max(...revs) : undefined;
+  };
+
+  const editEntry = edit ? pendingCellEntry(sync, tabToSheet[activeTab], edit.courseId, edit.criterionId) : undefined;
+  const editConflict = editEntry?.status === "conflict" && editEntry.conflict ? editEntry : undefined;
+
+  // === Редактирование ===
+  function openEdit(courseId: string, criterionId: string) {
+    if (editDenial(criterionId)) return;
+    const cell = getCell(courseId, criterionId);
+    const entry = pendingCellEntry(sync, tabToSheet[activeTab], courseId, criterionId);
+    setEdit({ courseId, criterionId });
+    if (entry?.status === "conflict" && entry.conflict) {
+      const merged = mergeCellDrafts(entry.conflict, entry.payload);
+      setDraftText(merged.text);
+      setDraftImages(merged.images);
+      setDraftValue(entry.payload.value ?? entry.conflict.value);
+      setDraftScore(String(entry.payload.score ?? entry.conflict.score ?? ""));
+    } else {
+      setDraftText(cell?.text || "");
+      setDraftImages(cell?.images || []);
+      setDraftValue(cell?.value);
+      setDraftScore(String(cell?.score ?? ""));
+    }
+    setDraftError(null);
+    setDraftPreview(false);
+  }
+
+  // бэкенд отклонил устаревшую запись — один раз сами открываем редактор с видом конфликта
+  const shownConflicts = useRef(new Set<string>());
+  useEffect(() => {
+    if (edit) return;
+    const tab = tabToSheet[activeTab];
+    const entry = sync.entries.find((e) => e.kind === "upsertCell" && e.status === "conflict" && e.payload.tab === tab && !shownConflicts.current.has(e.id));
+    if (!entry || entry.kind !== "upsertCell") return;
+    shownConflicts.current.add(entry.id);
+    openEdit(entry.payload.courseId, entry.payload.criterionId);
+  }, [sync.entries, edit, activeTab, tabToSheet]);
+
+  async function keepTheirs() {
+    if (!editConflict?.conflict) return;
+    const theirs = editConflict.conflict;
+    await outbox.discard(editConflict.id);
+    setData((prev) => ({
+      ...prev,
+      cells: [
+        ...prev.cells.filter((c) => !(c.courseId === theirs.courseId && c.criterionId === theirs.criterionId)),
+        { ...theirs, images: (theirs.images || []).map((img) => ({ ...img, url: normalizeImageUrl(img.url) })) },
+      ],
+    }));
+    setEdit(null);
+  }
 
   // === Запись ячейки ===
-  async function writeCell(courseId: string, criterionId: string, text: string, imagesLines: string) {
-    const sheetName = tabToSheet[activeTab];
+  async function writeCell(courseId: string, criterionId: string, text: string, images: CellImage[], value: CellValue | undefined, score: number | undefined, baseRevision = latestRevision(courseId, criterionId)) {
     const crit = data.criteria.find((c) => c.id === criterionId);
-    const payload = {
-      action: "upsertCell",
-      apiKey: getApiKey(),
-      tab: sheetName,
-      courseId,
-      criterionId,
-      criterion: crit?.name || "",
-      text,
-      images: imagesLines.split(/\r?\n/).map((s) => s.trim()).filter(Boolean),
-      updatedBy: (typeof window !== "undefined" && (localStorage.getItem("user_name") || "anonymous")) || "anonymous",
-    } as const;
-
-    if (!APPS_SCRIPT_URL) return;
-    try {
-      let res = await fetch(APPS_SCRIPT_URL, { method: "POST", headers: { "Content-Type": "text/plain" }, body: JSON.stringify(payload) });
-      const raw = await res.text();
-      let json: any = null; try { json = JSON.parse(raw); } catch { /* not JSON */ }
-      const unauthorized = !!(json && typeof json.error === "string" && json.error.toUpperCase().includes("UNAUTHORIZED"));
-      if (unauthorized) {
-        const key = typeof window !== "undefined" ? window.prompt("Введите API_KEY для записи в таблицу", "") : null;
-        if (key) {
-          setApiKey(key);
-          await fetch(APPS_SCRIPT_URL, { method: "POST", headers: { "Content-Type": "text/plain" }, body: JSON.stringify({ ...payload, apiKey: key }) });
-        }
-      }
-    } catch (e) {
-      console.warn("Apps Script недоступен, данные только локально", e);
-    }
+    await outbox.enqueue({
+      kind: "upsertCell",
+      payload: {
+        tab: tabToSheet[activeTab],
+        courseId,
+        criterionId,
+        criterion: crit?.name || "",
+        text,
+        images,
+        value,
+        score,
+        updatedBy: auth.user()?.name,
+        baseRevision,
+      },
+    });
   }
 
-  const saveCell = async (courseId: string, criterionId: string) => {
-    const images = draftImages.split(/\r?\n/).map((u) => u.trim()).filter(Boolean).map((u) => ({ url: normalizeImageUrl(u) }));
-    const newCell: Cell = { courseId, criterionId, text: draftText, images };
+  // локально применяем правку и ставим её в outbox; undoable — отдельным шагом в стек отмены
+  // (импорт копит шаг сам, отмена и повтор в стек не пишут)
+  async function commitCell(courseId: string, criterionId: string, text: string, images: CellImage[], value: CellValue | undefined, score: number | undefined, baseRevision = latestRevision(courseId, criterionId), undoable = true): Promise<CellContent> {
+    images = images.map((img) => ({ ...img, url: normalizeImageUrl(img.url.trim()) })).filter((img) => img.url);
+    const newCell: Cell = { courseId, criterionId, text, images, value, score, revision: baseRevision };
+    const before = contentOf(getCell(courseId, criterionId));
     setData((prev) => {
       const filtered = prev.cells.filter((c) => !(c.courseId === courseId && c.criterionId === criterionId));
       return { ...prev, cells: [...filtered, newCell] };
     });
-    await writeCell(courseId, criterionId, draftText, draftImages);
+    if (undoable) setUndoState((u) => recordStep(u, [{ courseId, criterionId, before, after: contentOf(newCell) }]));
+    await writeCell(courseId, criterionId, text, images, value, score, baseRevision);
+    return contentOf(newCell);
+  }
+
+  // === Отмена и повтор ===
+  async function stepUndo(direction: "undo" | "redo") {
+    const result = direction === "undo" ? undoStep(undoState) : redoStep(undoState);
+    if (!result) return;
+    const denial = result.step.map((e) => editDenial(e.criterionId)).find(Boolean);
+    if (denial) { window.alert(denial); return; }
+    const stale = result.step.find((e) => !sameContent(contentOf(getCell(e.courseId, e.criterionId)), expectedBefore(e, direction)));
+    if (stale) {
+      setUndoState(dropStep(undoState, direction));
+      const where = [data.courses.find((c) => c.id === stale.courseId)?.name, data.criteria.find((c) => c.id === stale.criterionId)?.name].filter(Boolean).join(" / ");
+      window.alert(`Ячейку «${where}» изменили после этой правки — ${direction === "undo" ? "отмена не применена" : "повтор не применён"}, чтобы не затереть новое содержимое.`);
+      return;
+    }
+    setUndoState(result.state);
+    const edits = direction === "undo" ? [...result.step].reverse() : result.step;
+    for (const e of edits) {
+      const content = direction === "undo" ? e.before : e.after;
+      await commitCell(e.courseId, e.criterionId, content.text, content.images, content.value, content.score, undefined, false);
+    }
+    // курсор — на изменённую ячейку, чтобы было видно, что откатилось
+    const last = edits[edits.length - 1];
+    if (visibleCourses.some((c) => c.id === last.courseId)) focusCell(last.courseId, last.criterionId);
+  }
+
+  const saveCell = async (courseId: string, criterionId: string) => {
+    const score = draftScore.trim() === "" ? undefined : Number(draftScore.replace(",", "."));
+    const error = validateValue(data.criteria.find((c) => c.id === criterionId), draftValue)
+      ?? (score !== undefined && !(score >= 0 && score <= MAX_SCORE) ? `Балл — число от 0 до ${MAX_SCORE}` : null);
+    setDraftError(error);
+    if (error) return;
+    // при конфликте объединённый черновик основан на их версии
+    await commitCell(courseId, criterionId, draftText, draftImages, draftValue, score, editConflict?.conflict?.revision);
     setEdit(null);
   };
 
+  const uploadImage = (target: { courseId: string; criterionId: string }) => (file: Blob, name: string) =>
+    dataSource.uploadImage({ tab: tabToSheet[activeTab], ...target, file, name });
+
+  // откат = обычная запись старого снимка, в журнале появится новой версией
+  const revertCell = async (courseId: string, criterionId: string, entry: CellHistoryEntry) => {
+    const denial = editDenial(criterionId);
+    if (denial) { window.alert(denial); return; }
+    await commitCell(courseId, criterionId, entry.text || "", entry.images, entry.value, entry.score);
+    setViewTab("content");
+  };
+
+  // === Курсы ===
+  const courseLabel = (c: Course) => {
+    if (!isPlaceholderCourseName(c.name)) return c.name.trim();
+    const meta = getCell(c.id, COURSE_CRIT_ID)?.text?.trim();
+    return meta || c.name || `Курс ${data.courses.findIndex((x) => x.id === c.id) + 1}`;
+  };
+
   async function addCourse() {
-    const nextIndex = data.courses.length + 1;
-    const newCourseId = `c${nextIndex}`;
-    if (APPS_SCRIPT_URL) {
-      try {
-        const res = await fetch(APPS_SCRIPT_URL, { method: "POST", headers: { "Content-Type": "text/plain" }, body: JSON.stringify({ action: "addCourse", apiKey: getApiKey(), tab: tabToSheet[activeTab], courseId: newCourseId }) });
-        if (!res.ok) throw new Error("Не удалось добавить курс в таблицу");
-      } catch (e) {
-        console.warn("Apps Script недоступен, добавление только локально", e);
-      }
+    // номер по счёту повторялся бы после удалений и у двух редакторов сразу — id по времени, как у критериев
+    const course: Course = { id: `c-${Date.now()}`, name: "Новый курс" };
+    setData((prev) => ({ ...prev, courses: [...prev.courses, course] }));
+    setCourseEdit(course);
+    await outbox.enqueue({ kind: "addCourse", payload: { tab: tabToSheet[activeTab], courseId: course.id, name: course.name } });
+  }
+
+  // newCompetitor — заведённый в карточке курса: создаём только теперь, при сохранении, и раньше самого курса
+  function updateCourse(course: Course, newCompetitor?: Competitor) {
+    if (newCompetitor) upsertCompetitor(newCompetitor);
+    const clean: Course = {
+      ...course,
+      provider: course.provider?.trim() || undefined,
+      url: course.url?.trim() || undefined,
+      logo: course.logo?.trim() || undefined,
+    };
+    setData((prev) => ({ ...prev, courses: prev.courses.map((c) => (c.id === clean.id ? clean : c)) }));
+    setCourseEdit(null);
+    void outbox.enqueue({ kind: "updateCourse", payload: { tab: tabToSheet[activeTab], course: clean } });
+  }
+
+  function deleteCourse(course: Course) {
+    setData((prev) => ({
+      ...prev,
+      courses: prev.courses.filter((c) => c.id !== course.id),
+      cells: prev.cells.filter((c) => c.courseId !== course.id),
+    }));
+    setCourseEdit(null);
+    void outbox.enqueue({ kind: "deleteCourse", payload: { tab: tabToSheet[activeTab], courseId: course.id } });
+  }
+
+  // перетащенный курс встаёт перед тем, на который его бросили
+  function moveCourse(id: string, beforeId: string) {
+    if (id === beforeId) return;
+    const ids = data.courses.map((c) => c.id).filter((x) => x !== id);
+    ids.splice(ids.indexOf(beforeId), 0, id);
+    setData((prev) => ({ ...prev, courses: sortByOrder(prev.courses, ids) }));
+    void outbox.enqueue({ kind: "reorderCourses", payload: { tab: tabToSheet[activeTab], order: ids } });
+  }
+
+  // === Критерии и группы ===
+  function saveCriterion(c: Criterion, isNew: boolean) {
+    const tab = tabToSheet[activeTab];
+    const group = c.group || MISC_GROUP;
+    if (!groupNames.includes(group)) setGroups([...groupNames, group]);
+    setCriterionEdit(null);
+    if (isNew) {
+      const newC = { ...c, group };
+      setData((prev) => ({ ...prev, criteria: [...prev.criteria, newC] }));
+      void outbox.enqueue({ kind: "addCriterion", payload: { tab, criterion: newC } });
+      return;
     }
-    setData((prev) => ({ ...prev, courses: [...prev.courses, { id: newCourseId, name: `Курс ${nextIndex}` }] }));
+    setData((prev) => ({ ...prev, criteria: prev.criteria.map((x) => (x.id === c.id ? { ...c, group } : x)) }));
+    void outbox.enqueue({
+      kind: "upsertCriterion",
+      payload: {
+        tab,
+        criterionId: c.id,
+        criterion: c.name,
+        section: group,
+        description: c.description || "",
+        filled_by: c.filledBy || "",
+        filled_by_only: !!c.filledByOnly,
+        value_type: c.valueType || "text",
+        options: c.options || [],
+        unit: c.unit || "",
+        currency: c.currency || "",
+        score_direction: c.scoreDirection || "",
+      },
+    });
+  }
+
+  // удаление мягкое: критерий помечается deleted, ячейки остаются и критерий можно вернуть
+  function setCriterionDeleted(c: Criterion, deleted: boolean) {
+    setData((prev) => ({ ...prev, criteria: prev.criteria.map((x) => (x.id === c.id ? { ...x, deleted: deleted || undefined } : x)) }));
+    setDeletedCriterion(deleted ? c : null);
+    void outbox.enqueue({ kind: "upsertCriterion", payload: { tab: tabToSheet[activeTab], criterionId: c.id, deleted } });
+  }
+
+  // меняем местами два критерия в общем списке (соседей по группе)
+  function swapCriteria(a: Criterion, b: Criterion) {
+    const ids = data.criteria.map((c) => c.id);
+    const ia = ids.indexOf(a.id);
+    const ib = ids.indexOf(b.id);
+    [ids[ia], ids[ib]] = [ids[ib], ids[ia]];
+    setData((prev) => ({ ...prev, criteria: sortByOrder(prev.criteria, ids) }));
+    void outbox.enqueue({ kind: "reorderCriteria", payload: { tab: tabToSheet[activeTab], order: ids } });
+  }
+
+  function setGroups(groups: string[]) {
+    setData((prev) => ({ ...prev, groups }));
+    void outbox.enqueue({ kind: "setGroups", payload: { tab: tabToSheet[activeTab], groups } });
+  }
+
+  function moveGroup(group: string, delta: -1 | 1) {
+    const groups = [...groupNames];
+    const i = groups.indexOf(group);
+    const j = i + delta;
+    if (i < 0 || j < 0 || j >= groups.length) return;
+    [groups[i], groups[j]] = [groups[j], groups[i]];
+    setGroups(groups);
+  }
+
+  function addGroup() {
+    const name = window.prompt("Название новой группы", "")?.trim();
+    if (!name || groupNames.includes(name)) return;
+    setGroups([...groupNames, name]);
+  }
+
+  function renameGroup(from: string) {
+    const to = window.prompt("Новое название группы", from)?.trim();
+    if (!to || to === from || groupNames.includes(to)) return;
+    setData((prev) => ({
+      ...prev,
+      groups: groupNames.map((g) => (g === from ? to : g)),
+      criteria: prev.criteria.map((c) => (c.group === from ? { ...c, group: to } : c)),
+    }));
+    setCollapsedGroups((prev) => ({ ...prev, [to]: !!prev[from] }));
+    void outbox.enqueue({ kind: "renameGroup", payload: { tab: tabToSheet[activeTab], from, to } });
   }
 
-  function addCriterionLocal() {
-    if (!newCriterion.name.trim()) return;
-    const id = `cr-${Date.now()}`;
-    const newC: Criterion = { id, name: newCriterion.name, description: newCriterion.description, group: MISC_GROUP, filledBy: newCriterion.filledBy };
-    setData((prev) => ({ ...prev, criteria: [...prev.criteria, newC] }));
-    setNewCriterion({ name: "", description: "", filledBy: "" });
-    setAddCriterionOpen(false);
-    if (APPS_SCRIPT_URL) {
-      fetch(APPS_SCRIPT_URL, { method: "POST", headers: { "Content-Type": "text/plain" }, body: JSON.stringify({ action: "addCriterion", apiKey: getApiKey(), tab: tabToSheet[activeTab], criterion: newC }) }).catch(() => console.warn("Не удалось записать критерий в таблицу"));
+  // список снимков вкладки; без него матрица работает как обычно
+  useEffect(() => {
+    const sheet = tabToSheet[activeTab];
+    setSnapshots([]);
+    if (!sheet) return;
+    let cancelled = false;
+    dataSource.listSnapshots(sheet).then((list) => { if (!cancelled) setSnapshots(list); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [activeTab, tabToSheet]);
+
+  // === Снимки ===
+  // снимок делает бэкенд из того, что уже сохранено, — правки из очереди в него не попадут
+  async function takeSnapshot() {
+    if (pendingCount > 0 && !window.confirm(`Ещё не отправлено правок: ${pendingCount}. В снимок они не попадут. Продолжить?`)) return;
+    const name = window.prompt("Название снимка", defaultSnapshotName())?.trim();
+    if (!name) return;
+    try {
+      const snapshot = await dataSource.createSnapshot({
+        tab: tabToSheet[activeTab],
+        name,
+        createdBy: auth.user()?.name,
+      });
+      setSnapshots((prev) => [snapshot, ...prev]);
+    } catch (e: any) {
+      window.alert(`Не удалось сделать снимок: ${e?.message || String(e)}`);
     }
   }
 
+  async function deleteSnapshot(id: string) {
+    try {
+      await dataSource.deleteSnapshot({ tab: tabToSheet[activeTab], snapshotId: id });
+      const rest = snapshots.filter((s) => s.id !== id);
+      setSnapshots(rest);
+      setSnapshotView(rest.length ? { asOf: rest[0].id, against: null } : null);
+    } catch (e: any) {
+      window.alert(`Не удалось удалить снимок: ${e?.message || String(e)}`);
+    }
+  }
+
+  // === Конкуренты ===
+  // пишем по одному: список целиком затирал бы конкурентов, которых добавили с другой вкладки
+  function upsertCompetitor(competitor: Competitor) {
+    if (!editable) return;
+    setCompetitors((prev) => (prev.some((c) => c.id === competitor.id) ? prev.map((c) => (c.id === competitor.id ? competitor : c)) : [...prev, competitor]));
+    void outbox.enqueue({ kind: "upsertCompetitor", payload: { tab: tabToSheet[activeTab], competitor } });
+  }
+
+  // === Веса и баллы ===
+  function saveWeightProfiles(profiles: WeightProfile[], activeId: string) {
+    setData((prev) => ({ ...prev, weightProfiles: profiles }));
+    selectProfile(activeId);
+    setWeightsOpen(false);
+    void outbox.enqueue({ kind: "saveWeightProfiles", payload: { tab: tabToSheet[activeTab], profiles } });
+  }
+
+  // === Доступ ===
+  function saveAccess(access: TabAccess) {
+    setData((prev) => ({ ...prev, access }));
+    setAccessOpen(false);
+    void outbox.enqueue({ kind: "saveAccess", payload: { tab: tabToSheet[activeTab], access } });
+  }
+
+  function selectProfile(id: string) {
+    setActiveProfileId(id);
+    localStorage.setItem(storageKey("weightProfile"), id);
+  }
+
+  // через 10 секунд «Отменить» пропадает, вернуть можно из сайдбара
+  useEffect(() => {
+    if (!deletedCriterion) return;
+    const t = setTimeout(() => setDeletedCriterion(null), 10000);
+    return () => clearTimeout(t);
+  }, [deletedCriterion]);
+
   const toggleGroup = (group: string) => setCollapsedGroups((prev) => ({ ...prev, [group]: !prev[group] }));
 
-  const visibleCourses = useMemo(() => data.courses.filter((c) => !hiddenCourses.includes(c.id)), [data.courses, hiddenCourses]);
-  const hiddenCourseObjs = useMemo(() => data.courses.filter((c) => hiddenCourses.includes(c.id)), [data.courses, hiddenCourses]);
+  const shownCourses = useMemo(() => data.courses.filter((c) => !c.archived && !hiddenCourses.includes(c.id)), [data.courses, hiddenCourses]);
+  const hiddenCourseObjs = useMemo(() => data.courses.filter((c) => !c.archived && hiddenCourses.includes(c.id)), [data.courses, hiddenCourses]);
+  const archivedCourses = useMemo(() => data.courses.filter((c) => c.archived), [data.courses]);
 
   const courseMetaCriteria = useMemo(() => data.criteria.filter((c) => c.id === COURSE_CRIT_ID || c.group === COURSE_GROUP), [data.criteria]);
 
-  const groupedCriteria = useMemo(() => {
-    const groups: Record<string, Criterion[]> = {};
-    for (const c of data.criteria) {
-      if (c.id === COURSE_CRIT_ID || c.group === COURSE_GROUP) continue;
-      const g = c.group ? (c.group === "XI. Прочее" ? MISC_GROUP : c.group) : MISC_GROUP;
-      if (!groups[g]) groups[g] = [];
-      groups[g].push(c);
+  const groupedCriteria = useMemo(() => groupCriteria(data), [data.criteria, data.groups]);
+  const groupNames = Object.keys(groupedCriteria);
+  const deletedCriteria = useMemo(() => data.criteria.filter((c) => c.deleted), [data.criteria]);
+
+  const weightProfiles = useMemo(() => (data.weightProfiles?.length ? data.weightProfiles : [DEFAULT_PROFILE]), [data.weightProfiles]);
+  const activeProfile = weightProfiles.find((p) => p.id === activeProfileId) ?? weightProfiles[0];
+  // баллы нормируются по показанным курсам: скрытые и архивные в сравнении не участвуют
+  const scores = useMemo(
+    () => computeScores(groupedCriteria, shownCourses.map((c) => c.id), getCell, activeProfile),
+    [groupedCriteria, shownCourses, cellIndex, activeProfile],
+  );
+  const visibleCourses = useMemo(
+    () => (sortByScore ? [...shownCourses].sort((a, b) => (scores[b.id]?.total ?? -1) - (scores[a.id]?.total ?? -1)) : shownCourses),
+    [shownCourses, scores, sortByScore],
+  );
+  // === Поиск и фильтры ===
+  const filtering = isFilterActive(filters);
+  const filledByOptions = useMemo(
+    () => Array.from(new Set(data.criteria.map((c) => c.filledBy?.trim()).filter((x): x is string => !!x))).sort((a, b) => a.localeCompare(b, "ru")),
+    [data.criteria],
+  );
+  // фильтры складываются; total — сколько критериев в группе без фильтров, для «3 из 12»
+  const filteredGroups = useMemo(() => Object.entries(groupedCriteria)
+    .map(([group, criteria]) => ({
+      group,
+      total: criteria.length,
+      criteria: filtering ? criteria.filter((k) => rowMatches(k, visibleCourses.map((c) => getCell(c.id, k.id)), filters)) : criteria,
+    }))
+    .filter((g) => !filtering || g.criteria.length > 0),
+  [groupedCriteria, visibleCourses, cellIndex, filters, filtering]);
+  const hitCount = filteredGroups.reduce((n, g) => n + g.criteria.length, 0);
+
+  // группы с совпадениями раскрываем сами при смене фильтра — иначе найденное спрятано в свёрнутой группе;
+  // свернуть руками во время поиска по-прежнему можно
+  useEffect(() => {
+    if (!filtering) return;
+    setCollapsedGroups((prev) => {
+      const toOpen = filteredGroups.filter((g) => prev[g.group]);
+      return toOpen.length ? { ...prev, ...Object.fromEntries(toOpen.map((g) => [g.group, false])) } : prev;
+    });
+  }, [filters]);
+
+  const peersOf = (criterionId: string) => shownCourses.map((c) => getCell(c.id, criterionId)?.value);
+
+  // === Строки сетки ===
+  // блок «Курс» (не сворачивается), итог по профилю весов, дальше группы с подытогами и критериями
+  const criterionRow = (k: Criterion, label: () => React.ReactNode, scored: boolean): VirtualRow => ({
+    key: critRowKey(k.id),
+    estimate: 170,
+    label,
+    cell: (i) => {
+      const c = visibleCourses[i];
+      const cell = getCell(c.id, k.id);
+      if (inlineEdit?.courseId === c.id && inlineEdit.criterionId === k.id) {
+        return <InlineCellEditor initial={cell?.text || ""} onCommit={commitInline} onCancel={() => { setInlineEdit(null); gridRef.current?.focus(); }} />;
+      }
+      return (
+        <CellCardView
+          cell={cell}
+          focused={cursor?.courseId === c.id && cursor.criterionId === k.id}
+          onSelect={() => setCursor({ courseId: c.id, criterionId: k.id })}
+          onActivate={() => startInlineEdit(c.id, k.id)}
+          score={scored ? cellScore(k, cell, peersOf(k.id)) : undefined}
+          highlight={scored ? filters.query : undefined}
+          sync={syncOf(c.id, k.id)}
+          onOpen={() => setOpen({ courseId: c.id, criterionId: k.id })}
+          editDenied={editDenial(k.id)}
+          onEdit={editable ? () => openEdit(c.id, k.id) : undefined}
+        />
+      );
+    },
+  });
+  const gridRows: VirtualRow[] = [
+    ...courseMetaCriteria.map((k) => criterionRow(k, () => <CriterionHeader k={k} />, false)),
+    {
+      key: "total",
+      estimate: 60,
+      label: () => (
+        <div className="border-r border-t px-2 py-2 text-sm h-full">
+          <div className="font-semibold">Итого</div>
+          <div className="text-xs text-muted-foreground truncate" title={activeProfile.name}>Веса: {activeProfile.name}</div>
+        </div>
+      ),
+      cell: (i) => (
+        <div className="border-t px-2 py-2 text-lg font-semibold tabular-nums h-full">
+          {formatScore(scores[visibleCourses[i].id]?.total)}<span className="text-xs font-normal text-muted-foreground"> / {MAX_SCORE}</span>
+        </div>
+      ),
+    },
+    ...filteredGroups.flatMap(({ group, criteria, total }): VirtualRow[] => [
+      {
+        key: `group:${group}`,
+        estimate: 50,
+        pinned: true,
+        labelClassName: "bg-gray-100",
+        label: () => (
+          <div className="flex items-center bg-gray-100 px-2 py-2 border-t h-full">
+            <div className="flex items-center gap-1 flex-1 min-w-0 cursor-pointer" onClick={() => toggleGroup(group)}>
+              {collapsedGroups[group] ? <ChevronRight className="h-4 w-4 shrink-0" /> : <ChevronDown className="h-4 w-4 shrink-0" />}
+              <span className="font-semibold text-sm truncate" title={group}>{group}</span>
+              {filtering && <span className="shrink-0 rounded bg-yellow-200 px-1.5 text-xs">{criteria.length} из {total}</span>}
+            </div>
+            {isAdmin && <div className="flex items-center shrink-0">
+              <Button size="icon" variant="ghost" title="Группу выше" onClick={() => moveGroup(group, -1)} disabled={groupNames.indexOf(group) === 0}><ArrowUp className="h-4 w-4" /></Button>
+              <Button size="icon" variant="ghost" title="Группу ниже" onClick={() => moveGroup(group, 1)} disabled={groupNames.indexOf(group) === groupNames.length - 1}><ArrowDown className="h-4 w-4" /></Button>
+              {group !== MISC_GROUP && (
+                <Button size="icon" variant="ghost" title="Переименовать группу" onClick={() => renameGroup(group)}><Pencil className="h-4 w-4" /></Button>
+              )}
+              <Button size="icon" variant="ghost" title="Добавить критерий" onClick={() => setCriterionEdit({ criterion: { id: `cr-${Date.now()}`, name: "", group }, isNew: true })}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>}
+          </div>
+        ),
+        // подытог группы по каждому курсу
+        cell: (i) => (
+          <div className="flex items-center bg-gray-100 px-2 py-2 border-t text-sm font-semibold tabular-nums h-full">
+            {formatScore(scores[visibleCourses[i].id]?.groups[group])}
+          </div>
+        ),
+      },
+      ...(collapsedGroups[group] ? [] : criteria.map((k, i) => criterionRow(k, () => (
+        // при фильтре соседи в списке — не соседи в группе, поэтому перестановку отключаем
+        <CriterionHeader k={k} highlight={filters.query} actions={isAdmin ? {
+          onEdit: () => setCriterionEdit({ criterion: k, isNew: false }),
+          onMoveUp: !filtering && i > 0 ? () => swapCriteria(k, criteria[i - 1]) : undefined,
+          onMoveDown: !filtering && i < criteria.length - 1 ? () => swapCriteria(k, criteria[i + 1]) : undefined,
+          onDelete: () => setCriterionDeleted(k, true),
+        } : undefined} />
+      ), true))),
+    ]),
+  ];
+
+  // === Клавиатура в сетке ===
+  // по строкам ходим только по критериям: заголовки групп и «Итого» пропускаем
+  const navCriteria = gridRows.filter((r) => r.key.startsWith(critRowKey(""))).map((r) => r.key.slice(critRowKey("").length));
+
+  const focusCell = (courseId: string, criterionId: string) => {
+    setCursor({ courseId, criterionId });
+    gridRef.current?.scrollToCell(critRowKey(criterionId), visibleCourses.findIndex((c) => c.id === courseId));
+    gridRef.current?.focus();
+  };
+
+  // соседняя ячейка: вниз — тот же курс, next/prev — следующий курс с переносом на другую строку
+  const neighbour = (from: { courseId: string; criterionId: string }, move: GridMove) => {
+    const row = navCriteria.indexOf(from.criterionId);
+    const col = visibleCourses.findIndex((c) => c.id === from.courseId);
+    if (row < 0 || col < 0) return null;
+    const n = visibleCourses.length;
+    const i = move === "down" ? row * n + col + n : row * n + col + (move === "next" ? 1 : -1);
+    if (i < 0 || i >= navCriteria.length * n) return null;
+    return { courseId: visibleCourses[i % n].id, criterionId: navCriteria[Math.floor(i / n)] };
+  };
+
+  // правка в сетке — только текст; при конфликте версий — обычный редактор, там разбор конфликта
+  function startInlineEdit(courseId: string, criterionId: string) {
+    if (!editable) return;
+    const denial = editDenial(criterionId);
+    if (denial) { window.alert(denial); return; }
+    if (pendingCellEntry(sync, tabToSheet[activeTab], courseId, criterionId)?.status === "conflict") { openEdit(courseId, criterionId); return; }
+    setCursor({ courseId, criterionId });
+    setInlineEdit({ courseId, criterionId });
+  }
+
+  function commitInline(text: string, move?: GridMove) {
+    const target = inlineEdit;
+    if (!target) return;
+    setInlineEdit(null);
+    const cell = getCell(target.courseId, target.criterionId);
+    if (text !== (cell?.text || "")) void commitCell(target.courseId, target.criterionId, text, cell?.images || [], cell?.value, cell?.score);
+    if (!move) return; // ушли кликом — курсор уже там, куда кликнули
+    const next = neighbour(target, move);
+    if (next) focusCell(next.courseId, next.criterionId);
+    else gridRef.current?.focus();
+  }
+
+  const onGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (inlineEdit || isTextInput(e.target) || !visibleCourses.length || !navCriteria.length) return;
+    const row = cursor ? navCriteria.indexOf(cursor.criterionId) : -1;
+    const col = cursor ? visibleCourses.findIndex((c) => c.id === cursor.courseId) : -1;
+    const go = (r: number, c: number) => { e.preventDefault(); focusCell(visibleCourses[c].id, navCriteria[r]); };
+    if (!cursor || row < 0 || col < 0) {
+      // курсора ещё нет или его строку спрятали фильтром — первая стрелка ставит его в начало
+      if (e.key.startsWith("Arrow")) go(0, 0);
+      return;
+    }
+    const last = { row: navCriteria.length - 1, col: visibleCourses.length - 1 };
+    switch (e.key) {
+      case "ArrowUp": return go(Math.max(0, row - 1), col);
+      case "ArrowDown": return go(Math.min(last.row, row + 1), col);
+      case "ArrowLeft": return go(row, Math.max(0, col - 1));
+      case "ArrowRight": return go(row, Math.min(last.col, col + 1));
+      case "Home": return go(e.ctrlKey || e.metaKey ? 0 : row, 0);
+      case "End": return go(e.ctrlKey || e.metaKey ? last.row : row, last.col);
+      case "Tab": {
+        // на краю сетки Tab отпускаем — фокус уходит дальше по странице
+        const next = neighbour(cursor, e.shiftKey ? "prev" : "next");
+        if (next) { e.preventDefault(); focusCell(next.courseId, next.criterionId); }
+        return;
+      }
+      case "Enter":
+      case "F2":
+        if (e.key === "Enter" && (e.target as HTMLElement).closest("button, a")) return; // Enter на кнопке карточки — нажать её
+        e.preventDefault();
+        return startInlineEdit(cursor.courseId, cursor.criterionId);
+      case "Escape":
+        setCursor(null);
+        return;
+    }
+  };
+
+  // копирование и вставка текста ячейки под курсором (разметка Markdown — как есть)
+  const onGridCopy = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!cursor || inlineEdit || isTextInput(e.target)) return;
+    e.preventDefault();
+    e.clipboardData.setData("text/plain", getCell(cursor.courseId, cursor.criterionId)?.text || "");
+  };
+  const onGridPaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    if (!cursor || inlineEdit || isTextInput(e.target)) return;
+    e.preventDefault();
+    if (!editable) return;
+    const { courseId, criterionId } = cursor;
+    const denial = editDenial(criterionId);
+    if (denial) { window.alert(denial); return; }
+    if (pendingCellEntry(sync, tabToSheet[activeTab], courseId, criterionId)?.status === "conflict") { openEdit(courseId, criterionId); return; }
+    // из таблиц строка приходит с переводом строки в конце
+    const text = e.clipboardData.getData("text/plain").replace(/\r\n?/g, "\n").replace(/\n$/, "");
+    const cell = getCell(courseId, criterionId);
+    if (text !== (cell?.text || "")) void commitCell(courseId, criterionId, text, cell?.images || [], cell?.value, cell?.score);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) — по всей странице, кроме полей ввода и открытых окон; по коду клавиши — работает и в русской раскладке
+  const modalOpen = !!(open || edit || criterionEdit || courseEdit || importOpen || weightsOpen || accessOpen || reportOpen);
+  const undoKeys = useRef<(e: KeyboardEvent) => void>();
+  undoKeys.current = (e) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || (e.code !== "KeyZ" && e.code !== "KeyY")) return;
+    if (modalOpen || inlineEdit || isTextInput(e.target)) return;
+    e.preventDefault();
+    void stepUndo(e.code === "KeyY" || e.shiftKey ? "redo" : "undo");
+  };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => undoKeys.current?.(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // === Экспорт и отчёт ===
+  const tabTitle = tabs.find((t) => t.id === activeTab)?.label || activeTab;
+  // блок «Курс» идёт первой группой, дальше — группы в порядке матрицы
+  const exportGroups = useMemo(
+    () => [{ name: "Курс", criteria: courseMetaCriteria }, ...Object.entries(groupedCriteria).map(([name, criteria]) => ({ name, criteria }))],
+    [courseMetaCriteria, groupedCriteria],
+  );
+
+  // «как на экране» — без скрытых курсов и свёрнутых групп; архив не выгружаем никогда
+  function exportTab(format: ExportFormat, scope: ExportScope) {
+    const courses = scope === "view" ? visibleCourses : data.courses.filter((c) => !c.archived);
+    const blob = exportTable({
+      title: tabTitle,
+      courses: courses.map((c) => ({ id: c.id, name: courseLabel(c) })),
+      groups: exportGroups.filter((g) => g.criteria.length > 0 && (scope === "all" || !collapsedGroups[g.name])),
+      getCell,
+    }, format);
+    downloadBlob(blob, exportFileName(tabTitle, format));
+  }
+
+  // === Импорт ===
+  const activeCourses = useMemo(() => data.courses.filter((c) => !c.archived).map((c) => ({ id: c.id, name: courseLabel(c) })), [data.courses, cellIndex]);
+  // критерии чужих команд импорт не трогает — бэкенд всё равно отклонит запись
+  const importCriteria = useMemo(() => data.criteria.filter((c) => !c.deleted && !cellEditDenial(data.access, user?.id, c)), [data.criteria, data.access, user?.id]);
+
+  // каждая ячейка пишется как обычная правка: локально + в outbox, с версией и журналом
+  async function applyImport(changes: ImportChange[]) {
+    const edits: CellEdit[] = [];
+    for (const c of changes) {
+      // импорт знает только ссылки — подписи и пометки уже известных картинок не теряем
+      const existing = getCell(c.courseId, c.criterionId)?.images || [];
+      const images = c.after.images.map((url) => existing.find((img) => img.url === url) ?? { url });
+      const before = contentOf(getCell(c.courseId, c.criterionId));
+      const after = await commitCell(c.courseId, c.criterionId, c.after.text, images, c.after.value, getCell(c.courseId, c.criterionId)?.score, undefined, false);
+      edits.push({ courseId: c.courseId, criterionId: c.criterionId, before, after });
     }
-    if (!groups[MISC_GROUP]) groups[MISC_GROUP] = [];
-    return groups;
-  }, [data.criteria]);
+    // весь импорт — один шаг отмены
+    setUndoState((u) => recordStep(u, edits));
+    setImportOpen(false);
+  }
+
+  const profileCompetitor = profileId ? competitors.find((c) => c.id === profileId) : undefined;
+  if (profileCompetitor) {
+    return (
+      <CompetitorProfile
+        competitor={profileCompetitor}
+        tabs={tabs}
+        onRename={editable ? (name) => upsertCompetitor({ ...profileCompetitor, name }) : undefined}
+        onOpenTab={(id) => { setProfileId(null); setActiveTab(id); }}
+        onClose={() => setProfileId(null)}
+      />
+    );
+  }
 
   return (
     <div className="w-full h-full p-4">
@@ -412,12 +1119,127 @@ useEffect(() => {
       <div className="flex justify-between items-center mb-4">
         <h1 className="text-lg font-bold">Матрица анализа конкурентов — <span className="font-normal">{tabs.find(t => t.id === activeTab)?.label || "—"}</span></h1>
         <div className="flex gap-2 items-center">
-          <Button variant="default" size="sm" onClick={addCourse} disabled={!activeTab}><Plus className="h-4 w-4 mr-1" /> Добавить курс</Button>
+          <div className="flex items-center gap-2 text-xs mr-2" title={sync.entries.find((e) => e.lastError)?.lastError}>
+            {conflictCount > 0 && (
+              <span className="inline-flex items-center gap-1 text-orange-700"><AlertTriangle className="h-4 w-4" /> Конфликтов: {conflictCount}</span>
+            )}
+            {failedCount > 0 ? (
+              <span className="inline-flex items-center gap-1 text-red-700"><AlertTriangle className="h-4 w-4" /> Не сохранено: {failedCount}</span>
+            ) : pendingCount > 0 ? (
+              <span className="inline-flex items-center gap-1 text-amber-700"><Loader2 className="h-4 w-4 animate-spin" /> В очереди: {pendingCount}</span>
+            ) : conflictCount === 0 && (
+              <span className="inline-flex items-center gap-1 text-green-700"><Check className="h-4 w-4" /> Всё сохранено</span>
+            )}
+            {sync.entries.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => void outbox.retryAll()} disabled={sync.flushing}>
+                <RefreshCw className="h-4 w-4 mr-1" /> Повторить все
+              </Button>
+            )}
+          </div>
+          {editable && (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => void stepUndo("undo")} disabled={!undoState.past.length} title="Отменить правку ячейки (Ctrl+Z)">
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => void stepUndo("redo")} disabled={!undoState.future.length} title="Повторить правку (Ctrl+Shift+Z)">
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {editable && <Button variant="default" size="sm" onClick={addCourse} disabled={!activeTab}><Plus className="h-4 w-4 mr-1" /> Добавить курс</Button>}
+          {isAdmin && <Button variant="outline" size="sm" onClick={addGroup} disabled={!activeTab}><FolderPlus className="h-4 w-4 mr-1" /> Добавить группу</Button>}
+          {weightProfiles.length > 1 && (
+            <select value={activeProfile.id} onChange={(e) => selectProfile(e.target.value)} className="border rounded-md px-2 py-1 text-sm" title="Профиль весов">
+              {weightProfiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          )}
+          {isAdmin && <Button variant="outline" size="sm" onClick={() => setWeightsOpen(true)} disabled={!activeTab}><Scale className="h-4 w-4 mr-1" /> Веса</Button>}
+          <Button variant={sortByScore ? "secondary" : "outline"} size="sm" onClick={() => setSortByScore((v) => !v)} disabled={!activeTab}>
+            <ArrowDownWideNarrow className="h-4 w-4 mr-1" /> Сортировать по баллу
+          </Button>
+          {editable && <Button variant="outline" size="sm" onClick={() => setImportOpen(true)} disabled={!activeTab || loading}><Upload className="h-4 w-4 mr-1" /> Импорт</Button>}
+          <ExportMenu disabled={!activeTab || loading} onExport={exportTab} />
+          <Button variant="outline" size="sm" onClick={() => setReportOpen(true)} disabled={!activeTab || loading}><FileText className="h-4 w-4 mr-1" /> Отчёт</Button>
+          <Button
+            variant={compareIds ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setCompareIds((ids) => (ids ? null : visibleCourses.slice(0, COMPARE_MIN).map((c) => c.id)))}
+            disabled={!activeTab || loading}
+          >
+            <Columns2 className="h-4 w-4 mr-1" /> Сравнить
+          </Button>
+          <Button variant={progressOpen ? "secondary" : "outline"} size="sm" onClick={() => setProgressOpen((v) => !v)} disabled={!activeTab || loading}>
+            <ListChecks className="h-4 w-4 mr-1" /> Прогресс
+          </Button>
+          {editable && <Button variant="outline" size="sm" onClick={takeSnapshot} disabled={!activeTab || loading}><Camera className="h-4 w-4 mr-1" /> Снимок</Button>}
+          {snapshots.length > 0 && (
+            <select
+              value={snapshotView?.asOf || ""}
+              onChange={(e) => setSnapshotView(e.target.value ? { asOf: e.target.value, against: null } : null)}
+              className="border rounded-md px-2 py-1 text-sm"
+              title="Показать вкладку на дату снимка"
+              disabled={loading}
+            >
+              <option value="">Текущее состояние</option>
+              {snapshots.map((s) => <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>)}
+            </select>
+          )}
           <Button variant="outline" size="sm" onClick={() => Object.keys(groupedCriteria).forEach((g) => setCollapsedGroups((prev) => ({ ...prev, [g]: false })))} disabled={!activeTab}>Развернуть все</Button>
           <Button variant="outline" size="sm" onClick={() => Object.keys(groupedCriteria).forEach((g) => setCollapsedGroups((prev) => ({ ...prev, [g]: true })))} disabled={!activeTab}>Свернуть все</Button>
+          {user && (
+            <div className="flex items-center gap-1 text-xs ml-2 pl-2 border-l">
+              <span className="text-muted-foreground truncate max-w-[10rem]" title={`${user.email || user.name} · ${ROLE_LABELS[role]}`}>{user.name}</span>
+              {!isAdmin && <span className="rounded bg-gray-100 px-1.5 py-0.5">{ROLE_LABELS[role]}</span>}
+              {isAdmin && (
+                <Button variant="ghost" size="sm" onClick={() => setAccessOpen(true)} disabled={!activeTab} title="Доступ к вкладке">
+                  <Shield className="h-4 w-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => {
+                if (pendingCount > 0 && !window.confirm(`Ещё не отправлено правок: ${pendingCount}. Они останутся в очереди и уйдут после следующего входа. Выйти?`)) return;
+                void auth.logout();
+              }} title="Выйти">
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Поиск и фильтры */}
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <div className="relative">
+          <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={filters.query}
+            onChange={(e) => setFilters((f) => ({ ...f, query: e.target.value }))}
+            onKeyDown={(e) => { if (e.key === "Escape") setFilters((f) => ({ ...f, query: "" })); }}
+            placeholder="Поиск по критериям и ячейкам"
+            className="border rounded-md pl-8 pr-2 py-1 w-72"
+          />
+        </div>
+        {filledByOptions.length > 0 && (
+          <select value={filters.filledBy} onChange={(e) => setFilters((f) => ({ ...f, filledBy: e.target.value }))} className="border rounded-md px-2 py-1">
+            <option value="">Заполняет: все</option>
+            {filledByOptions.map((x) => <option key={x} value={x}>{x}</option>)}
+          </select>
+        )}
+        <label className="inline-flex items-center gap-1">
+          <input type="checkbox" checked={filters.onlyEmpty} onChange={(e) => setFilters((f) => ({ ...f, onlyEmpty: e.target.checked }))} />
+          Только с пустыми ячейками
+        </label>
+        <label className="inline-flex items-center gap-1">
+          <input type="checkbox" checked={filters.onlyDiffering} onChange={(e) => setFilters((f) => ({ ...f, onlyDiffering: e.target.checked }))} />
+          Только где курсы различаются
+        </label>
+        {filtering && (
+          <>
+            <span className="text-muted-foreground">Найдено критериев: {hitCount}</span>
+            <Button size="sm" variant="ghost" onClick={() => setFilters(EMPTY_FILTERS)}><X className="h-4 w-4 mr-1" /> Сбросить</Button>
+          </>
+        )}
+      </div>
+
       {loading ? (
         <div className="text-sm text-muted-foreground">Загружаю данные…</div>
       ) : loadError ? (
@@ -426,195 +1248,382 @@ useEffect(() => {
         <div className="text-sm text-muted-foreground">Выберите вкладку (или заполните лист <code>__tabs</code>).</div>
       ) : (
         <div className="flex gap-4 items-start">
-          {/* Табличная сетка */}
-          <div className="grid flex-1" style={{ gridTemplateColumns: `280px repeat(${visibleCourses.length}, minmax(260px, 1fr))` }}>
-            <div className="font-medium border-b px-2 py-2">Критерии / Курсы</div>
-            {visibleCourses.map((c, idx) => (
-              <CourseHeaderCell key={c.id} cLabel={`Курс ${idx + 1}`} onHide={() => {
-                setHiddenCourses((prev) => { const next = [...prev, c.id]; localStorage.setItem(storageKey("hiddenCourseIds"), JSON.stringify(next)); return next; });
-              }} />
-            ))}
-
-            {/* Несворачиваемый блок: 0. Курс */}
-            {courseMetaCriteria.map((k) => (
-              <React.Fragment key={k.id}>
-                <CriterionHeader k={k} />
-                {visibleCourses.map((c) => {
-                  const cell = getCell(c.id, k.id);
-                  return (
-                    <CellCardView
-                      key={c.id + k.id}
-                      cell={cell}
-                      onOpen={() => setOpen({ courseId: c.id, criterionId: k.id })}
-                      onEdit={() => { setEdit({ courseId: c.id, criterionId: k.id }); setDraftText(cell?.text || ""); setDraftImages((cell?.images || []).map((i) => i.url).join("\n")); }}
-                    />
-                  );
-                })}
-              </React.Fragment>
-            ))}
-
-            {/* Остальные группы */}
-            {Object.entries(groupedCriteria).map(([group, criteria]) => (
-              <React.Fragment key={group}>
-                <div className="col-span-full flex items-center bg-gray-100 px-2 py-2 border-t">
-                  <div className="flex items-center gap-1 flex-1 cursor-pointer" onClick={() => toggleGroup(group)}>
-                    {collapsedGroups[group] ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
-                    <span className="font-semibold text-sm">{group}</span>
-                  </div>
-                  {group === MISC_GROUP && (
-                    <Button size="sm" variant="outline" onClick={() => setAddCriterionOpen(true)}>
-                      <Plus className="h-4 w-4 mr-1" /> Добавить критерий
-                    </Button>
-                  )}
-                </div>
-
-                {!collapsedGroups[group] && criteria.map((k) => (
-                  <React.Fragment key={k.id}>
-                    <CriterionHeader k={k} />
-                    {visibleCourses.map((c) => {
-                      const cell = getCell(c.id, k.id);
-                      return (
-                        <CellCardView
-                          key={c.id + k.id}
-                          cell={cell}
-                          onOpen={() => setOpen({ courseId: c.id, criterionId: k.id })}
-                          onEdit={() => { setEdit({ courseId: c.id, criterionId: k.id }); setDraftText(cell?.text || ""); setDraftImages((cell?.images || []).map((i) => i.url).join("\n")); }}
-                        />
-                      );
-                    })}
-                  </React.Fragment>
-                ))}
-              </React.Fragment>
-            ))}
-          </div>
+          {progressOpen ? (
+            <ProgressView
+              courses={activeCourses}
+              groups={exportGroups}
+              getCell={getCell}
+              myTeams={memberOf(data.access, user?.id)?.teams || []}
+              canEditCell={(criterionId) => editable && !editDenial(criterionId)}
+              onEdit={openEdit}
+              onOpen={(courseId, criterionId) => setOpen({ courseId, criterionId })}
+              onClose={() => setProgressOpen(false)}
+            />
+          ) : snapshotView ? (
+            <SnapshotView
+              sheet={tabToSheet[activeTab]}
+              current={data}
+              snapshots={snapshots}
+              asOf={snapshotView.asOf}
+              against={snapshotView.against}
+              onChange={(asOf, against) => setSnapshotView({ asOf, against })}
+              onDelete={isAdmin ? deleteSnapshot : undefined}
+              onClose={() => setSnapshotView(null)}
+            />
+          ) : compareIds ? (
+            <CompareView
+              courses={data.courses.filter((c) => !c.archived)}
+              selected={compareIds}
+              onSelect={setCompareIds}
+              groups={[{ name: "Курс", criteria: courseMetaCriteria }, ...filteredGroups.map((g) => ({ name: g.group, criteria: g.criteria }))]}
+              getCell={getCell}
+              courseLabel={courseLabel}
+              onOpen={(courseId, criterionId) => setOpen({ courseId, criterionId })}
+              onClose={() => setCompareIds(null)}
+            />
+          ) : (
+          /* Табличная сетка: рисуются только строки и колонки возле видимой области */
+          <VirtualGrid
+            ref={gridRef}
+            className="flex-1 min-w-0 border rounded-md focus-visible:ring-2 focus-visible:ring-blue-300"
+            rows={gridRows}
+            onKeyDown={onGridKeyDown}
+            onCopy={onGridCopy}
+            onPaste={onGridPaste}
+            keepCell={inlineEdit && { rowKey: critRowKey(inlineEdit.criterionId), column: visibleCourses.findIndex((c) => c.id === inlineEdit.courseId) }}
+            columnKeys={visibleCourses.map((c) => c.id)}
+            corner={<div className="font-medium border-b border-r px-2 py-2 h-full">Критерии / Курсы</div>}
+            header={(i) => {
+              const c = visibleCourses[i];
+              return (
+                <CourseHeaderCell
+                  course={c}
+                  cLabel={courseLabel(c)}
+                  dragOver={!!dragCourse && dragCourse.id !== c.id && dragCourse.overId === c.id}
+                  readOnly={!editable}
+                  onEdit={() => setCourseEdit(c)}
+                  onProfile={c.competitorId && competitors.some((x) => x.id === c.competitorId) ? () => setProfileId(c.competitorId!) : undefined}
+                  onHide={() => saveHidden([...hiddenCourses, c.id])}
+                  onDragStart={() => setDragCourse({ id: c.id })}
+                  onDragOver={() => setDragCourse((d) => (d && d.overId !== c.id ? { ...d, overId: c.id } : d))}
+                  onDrop={() => { if (dragCourse) moveCourse(dragCourse.id, c.id); setDragCourse(null); }}
+                  onDragEnd={() => setDragCourse(null)}
+                />
+              );
+            }}
+          />
+          )}
 
           {/* Сайдбар: скрытые курсы */}
           <div className="w-[220px] shrink-0 border rounded-md p-2">
             <div className="font-medium mb-2">Скрытые курсы</div>
             {hiddenCourseObjs.length > 0 ? (
               <div className="flex flex-col gap-2">
-                {hiddenCourseObjs.map((c) => {
-                  const meta = getCell(c.id, COURSE_CRIT_ID)?.text?.trim();
-                  const number = data.courses.findIndex((x) => x.id === c.id) + 1;
-                  const label = meta && meta.length > 0 ? meta : `Курс ${number}`;
-                  return (
-                    <Button key={c.id} size="sm" variant="secondary" onClick={() => {
-                      setHiddenCourses((prev) => { const next = prev.filter((x) => x !== c.id); localStorage.setItem(storageKey("hiddenCourseIds"), JSON.stringify(next)); return next; });
-                    }} className="justify-start text-left whitespace-pre-wrap">
-                      {label}
-                    </Button>
-                  );
-                })}
+                {hiddenCourseObjs.map((c) => (
+                  <Button key={c.id} size="sm" variant="secondary" onClick={() => saveHidden(hiddenCourses.filter((x) => x !== c.id))} className="justify-start text-left whitespace-pre-wrap">
+                    {courseLabel(c)}
+                  </Button>
+                ))}
               </div>
             ) : (
               <div className="text-xs text-muted-foreground">Нет скрытых</div>
             )}
+            {deletedCriteria.length > 0 && (
+              <>
+                <div className="font-medium mt-4 mb-2">Удалённые критерии</div>
+                <div className="flex flex-col gap-2">
+                  {deletedCriteria.map((k) => (
+                    <div key={k.id} className="flex items-center gap-1">
+                      <span className="flex-1 text-sm text-muted-foreground truncate" title={k.name}>{k.name}</span>
+                      <Button size="sm" variant="ghost" title="Вернуть критерий" onClick={() => setCriterionDeleted(k, false)}>
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+            {archivedCourses.length > 0 && (
+              <>
+                <div className="font-medium mt-4 mb-2">Архив</div>
+                <div className="flex flex-col gap-2">
+                  {archivedCourses.map((c) => (
+                    <div key={c.id} className="flex items-center gap-1">
+                      <span className="flex-1 text-sm text-muted-foreground truncate" title={courseLabel(c)}>{courseLabel(c)}</span>
+                      <Button size="sm" variant="ghost" title="Вернуть из архива" onClick={() => updateCourse({ ...c, archived: false })}>
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
 
       {/* Просмотр */}
-      <Dialog open={!!open} onOpenChange={() => setOpen(null)}>
+      <Dialog open={!!open} onOpenChange={() => setOpen(null)} onEscapeKeyDown={(e) => { if (viewerRef.current?.escape()) e.preventDefault(); }}>
         <DialogContent className="sm:max-w-5xl w-[min(96vw,1200px)] max-h-[85vh] overflow-auto p-4">
           {open && (
             <>
               <DialogHeader>
                 <DialogTitle>
-                  Просмотр: {(
-                    getCell(open.courseId, COURSE_CRIT_ID)?.text?.trim() ||
-                    `Курс ${Math.max(1, data.courses.findIndex(x => x.id === open.courseId) + 1)}`
-                  )}
+                  Просмотр: {(() => {
+                    const course = data.courses.find((x) => x.id === open.courseId);
+                    return course ? courseLabel(course) : open.courseId;
+                  })()}
                 </DialogTitle>
               </DialogHeader>
-              <div className="text-sm whitespace-pre-wrap mb-4">{getCell(open.courseId, open.criterionId)?.text || "—"}</div>
               {(() => {
                 const cell = getCell(open.courseId, open.criterionId);
-                const imgs = cell?.images || [];
-                if (!imgs.length) return null;
-                const clampedIndex = Math.min(Math.max(0, viewerIndex), imgs.length - 1);
-                const current = imgs[clampedIndex];
+                if (!cell?.updatedAt && !cell?.updatedBy) return null;
+                return <div className="text-xs text-muted-foreground mb-2">Изменено: {[cell.updatedBy, cell.updatedAt && new Date(cell.updatedAt).toLocaleString("ru-RU")].filter(Boolean).join(", ")}</div>;
+              })()}
+              <div className="flex gap-2 mb-3">
+                <Button size="sm" variant={viewTab === "content" ? "secondary" : "outline"} onClick={() => setViewTab("content")}>Содержимое</Button>
+                <Button size="sm" variant={viewTab === "history" ? "secondary" : "outline"} onClick={() => setViewTab("history")}><History className="h-4 w-4 mr-1" /> История</Button>
+                <Button size="sm" variant="ghost" className="ml-auto" onClick={copyLink} title="Ссылка на эту ячейку с текущими фильтрами и видимыми курсами">
+                  {linkCopied ? <><Check className="h-4 w-4 mr-1" /> Скопировано</> : <><Link2 className="h-4 w-4 mr-1" /> Скопировать ссылку</>}
+                </Button>
+              </div>
+              {viewTab === "history" ? (
+                <CellHistory
+                  key={sync.versions[cellKey(tabToSheet[activeTab], open.courseId, open.criterionId)]?.revision ?? "base"}
+                  tab={tabToSheet[activeTab]}
+                  courseId={open.courseId}
+                  criterionId={open.criterionId}
+                  onRevert={(entry) => revertCell(open.courseId, open.criterionId, entry)}
+                />
+              ) : (<>
+              {getCell(open.courseId, open.criterionId)?.value && (
+                <div className="mb-2"><ValueView value={getCell(open.courseId, open.criterionId)?.value} /></div>
+              )}
+              <div className="text-sm mb-4">
+                {(() => {
+                  const text = getCell(open.courseId, open.criterionId)?.text;
+                  return text?.trim() ? <Markdown text={text} /> : "—";
+                })()}
+              </div>
+              {(() => {
+                const own = getCell(open.courseId, open.criterionId)?.images || [];
+                // галерея критерия: тот же критерий у всех видимых курсов подряд, с подписью курса
+                const gallery = galleryMode
+                  ? visibleCourses.flatMap((c) => (getCell(c.id, open.criterionId)?.images || []).map((image) => ({ image, label: courseLabel(c) })))
+                  : null;
+                if (!own.length && !gallery?.length) return null;
+                const hasOthers = visibleCourses.some((c) => c.id !== open.courseId && getCell(c.id, open.criterionId)?.images?.length);
                 return (
-                  <div className="flex flex-col gap-3 items-center">
-                    <div className="w-full flex items-center justify-center">
-                      <Img url={current.url} alt={current.caption || "screenshot"} className="max-h-[78vh] w-full object-contain rounded border bg-black/5" />
-                    </div>
-                    <div className="w-full flex items-center gap-3">
-                      <Button
-                        type="button"
-                        size="icon"
-                        variant="outline"
-                        onClick={() => setViewerIndex((i) => Math.max(0, i - 1))}
-                        disabled={clampedIndex <= 0}
-                        aria-label="Предыдущее изображение"
-                      >
-                        <ChevronLeft className="h-4 w-4" />
-                      </Button>
-                      <input
-                        type="range"
-                        min={0}
-                        max={Math.max(0, imgs.length - 1)}
-                        value={clampedIndex}
-                        onChange={(e) => setViewerIndex(Number(e.target.value))}
-                        className="flex-1"
-                      />
-                      <Button
-                        type="button"
-                        size="icon"
-                        variant="outline"
-                        onClick={() => setViewerIndex((i) => Math.min(imgs.length - 1, i + 1))}
-                        disabled={clampedIndex >= imgs.length - 1}
-                        aria-label="Следующее изображение"
-                      >
-                        <ChevronRight className="h-4 w-4" />
-                      </Button>
-                      <span className="text-xs whitespace-nowrap">{clampedIndex + 1} / {imgs.length}</span>
-                    </div>
-                    <a href={current.url} target="_blank" rel="noreferrer" className="text-xs underline text-blue-600 hover:text-blue-800 self-start">Открыть оригинал</a>
+                  <div className="flex flex-col gap-2">
+                    {(hasOthers || galleryMode) && (
+                      <div className="flex justify-end">
+                        <Button
+                          size="sm"
+                          variant={galleryMode ? "secondary" : "outline"}
+                          onClick={() => {
+                            // в галерее начинаем с первого скриншота открытого курса
+                            const offset = visibleCourses
+                              .slice(0, Math.max(0, visibleCourses.findIndex((c) => c.id === open.courseId)))
+                              .reduce((n, c) => n + (getCell(c.id, open.criterionId)?.images?.length || 0), 0);
+                            setViewerIndex(galleryMode ? 0 : offset);
+                            setGalleryMode((g) => !g);
+                          }}
+                        >
+                          <GalleryHorizontal className="h-4 w-4 mr-1" /> Галерея критерия
+                        </Button>
+                      </div>
+                    )}
+                    <ImageViewer
+                      ref={viewerRef}
+                      items={gallery ?? own.map((image) => ({ image }))}
+                      index={viewerIndex}
+                      onIndex={setViewerIndex}
+                    />
                   </div>
                 );
               })()}
+              </>)}
             </>
           )}
         </DialogContent>
       </Dialog>
 
       {/* Редактирование */}
-      <Dialog open={!!edit} onOpenChange={() => setEdit(null)}>
-        <DialogContent className="max-w-xl">
-          {edit && (
+      {/* пока грузятся скриншоты, закрыть нельзя — загрузка привязана к этой правке */}
+      <Dialog open={!!edit} onOpenChange={() => { if (!imagesBusy) setEdit(null); }}>
+        <DialogContent className={editConflict ? "max-w-3xl" : "max-w-xl"}>
+          {edit && editConflict?.conflict ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Конфликт: {edit.courseId} / {edit.criterionId}</DialogTitle>
+              </DialogHeader>
+              <ConflictView
+                key={`${edit.courseId}|${edit.criterionId}`}
+                theirs={editConflict.conflict}
+                mine={editConflict.payload}
+                draftText={draftText}
+                onDraftText={setDraftText}
+                draftImages={draftImages}
+                onDraftImages={setDraftImages}
+                upload={uploadImage(edit)}
+                onBusyChange={setImagesBusy}
+              />
+              <ValueEditor criterion={data.criteria.find((c) => c.id === edit.criterionId)} value={draftValue} onChange={setDraftValue} />
+              {draftError && <div className="text-sm text-red-600 mt-2">{draftError}</div>}
+              <DialogFooter className="pt-2">
+                <Button onClick={() => saveCell(edit.courseId, edit.criterionId)} disabled={imagesBusy}>Сохранить объединённое</Button>
+                <Button variant="secondary" onClick={keepTheirs} disabled={imagesBusy}>Оставить их версию</Button>
+                <Button variant="outline" onClick={() => setEdit(null)} disabled={imagesBusy}>Отмена</Button>
+              </DialogFooter>
+            </>
+          ) : edit && (
             <>
               <DialogHeader>
                 <DialogTitle>Редактировать: {edit.courseId} / {edit.criterionId}</DialogTitle>
               </DialogHeader>
               <div className="flex flex-col gap-3">
-                <Label>Текст</Label>
-                <textarea value={draftText} onChange={(e) => setDraftText(e.target.value)} className="border rounded-md p-2 text-sm min-h-[120px]" />
+                {(() => {
+                  const crit = data.criteria.find((c) => c.id === edit.criterionId);
+                  if (!crit?.valueType || crit.valueType === "text") return <Label>Текст</Label>;
+                  return (
+                    <>
+                      <Label>Значение</Label>
+                      <ValueEditor criterion={crit} value={draftValue} onChange={(v) => { setDraftValue(v); setDraftError(null); }} />
+                      <Label>Комментарий</Label>
+                    </>
+                  );
+                })()}
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="flex-1">Markdown: **жирный**, *курсив*, `код`, [ссылка](https://…), списки, таблицы</span>
+                  <Button size="sm" variant="ghost" className="h-7" onClick={() => setDraftPreview((p) => !p)}>
+                    {draftPreview ? <><Pencil className="h-4 w-4 mr-1" /> Текст</> : <><Eye className="h-4 w-4 mr-1" /> Предпросмотр</>}
+                  </Button>
+                </div>
+                {draftPreview ? (
+                  <div className="border rounded-md p-2 text-sm min-h-[120px] max-h-[50vh] overflow-auto">
+                    {draftText.trim() ? <Markdown text={draftText} /> : <span className="text-muted-foreground">Пусто</span>}
+                  </div>
+                ) : (
+                  <textarea value={draftText} onChange={(e) => setDraftText(e.target.value)} className="border rounded-md p-2 text-sm min-h-[120px]" />
+                )}
+                {(() => {
+                  const crit = data.criteria.find((c) => c.id === edit.criterionId);
+                  if (!crit || edit.criterionId === COURSE_CRIT_ID) return null;
+                  const auto = autoScore(crit, draftValue, peersOf(crit.id));
+                  return (
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="cell-score">Балл (0–{MAX_SCORE})</Label>
+                      <input
+                        id="cell-score"
+                        type="number"
+                        min={0}
+                        max={MAX_SCORE}
+                        step={0.5}
+                        value={draftScore}
+                        placeholder={auto !== undefined ? formatScore(auto) : ""}
+                        onChange={(e) => { setDraftScore(e.target.value); setDraftError(null); }}
+                        className="w-24 border rounded-md px-2 py-1 text-sm"
+                      />
+                      <span className="text-xs text-muted-foreground">{auto !== undefined ? `по значению: ${formatScore(auto)}, пусто — брать его` : "пусто — без балла"}</span>
+                    </div>
+                  );
+                })()}
+                {draftError && <div className="text-sm text-red-600">{draftError}</div>}
                 <div>
-                  <Label className="block">Скриншоты (ссылки, по одной в строке)</Label>
-                  <textarea value={draftImages} onChange={(e) => setDraftImages(e.target.value)} className="border rounded-md p-2 text-sm min-h-[140px] w-full mt-1 resize-y" />
+                  <Label className="block mb-1">Скриншоты</Label>
+                  <ImageListEditor
+                    key={`${edit.courseId}|${edit.criterionId}`}
+                    value={draftImages}
+                    onChange={setDraftImages}
+                    upload={uploadImage(edit)}
+                    onBusyChange={setImagesBusy}
+                  />
                 </div>
-                <div className="text-xs text-muted-foreground">Для Google Drive вставляйте ссылку вида <code>https://drive.google.com/file/d/FILE_ID/view</code> (включите доступ «У кого есть ссылка: Просмотр»). Также работают <code>uc?export=download</code> и <code>thumbnail?id=FILE_ID&sz=w2000</code>.</div>
               </div>
               <DialogFooter className="pt-2">
-                <Button onClick={() => saveCell(edit.courseId, edit.criterionId)}>Сохранить</Button>
-                <Button variant="outline" onClick={() => setEdit(null)}>Отмена</Button>
+                <Button onClick={() => saveCell(edit.courseId, edit.criterionId)} disabled={imagesBusy}>
+                  {imagesBusy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} Сохранить
+                </Button>
+                <Button variant="outline" onClick={() => setEdit(null)} disabled={imagesBusy}>Отмена</Button>
               </DialogFooter>
             </>
           )}
         </DialogContent>
       </Dialog>
 
-      {/* Добавить критерий */}
-      <Dialog open={addCriterionOpen} onOpenChange={setAddCriterionOpen}>
-        <DialogContent className="max-w-md">
-          <DialogHeader>
-            <DialogTitle>Пока добавить новый критерий можно только вручную. Для этого напишите Катерине Бу.</DialogTitle>
-          </DialogHeader>
-          <DialogFooter className="pt-2">
-            <Button variant="outline" onClick={() => setAddCriterionOpen(false)}>Отмена</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {/* Карточка курса */}
+      <CourseDialog
+        course={courseEdit}
+        competitors={competitors}
+        onClose={() => setCourseEdit(null)}
+        onSave={updateCourse}
+        onArchive={(c, archived, newCompetitor) => updateCourse({ ...c, archived }, newCompetitor)}
+        onDelete={deleteCourse}
+      />
+
+      {/* Отчёт для печати и HTML-снимок */}
+      <ReportView
+        open={reportOpen}
+        title={tabTitle}
+        courses={data.courses.filter((c) => !c.archived).map((c) => ({ id: c.id, name: courseLabel(c), provider: c.provider }))}
+        initialCourseIds={visibleCourses.map((c) => c.id)}
+        groups={exportGroups}
+        initialGroups={exportGroups.filter((g) => !collapsedGroups[g.name]).map((g) => g.name)}
+        getCell={getCell}
+        onClose={() => setReportOpen(false)}
+      />
+
+      {/* Импорт из CSV/XLSX */}
+      <ImportWizard
+        open={importOpen}
+        courses={activeCourses}
+        criteria={importCriteria}
+        getCell={(courseId, criterionId) => {
+          const cell = getCell(courseId, criterionId);
+          return cell && { text: cell.text, value: cell.value, images: (cell.images || []).map((i) => i.url) };
+        }}
+        onClose={() => setImportOpen(false)}
+        onApply={applyImport}
+      />
+
+      {/* Доступ */}
+      <AccessDialog
+        open={accessOpen}
+        access={data.access}
+        userId={user?.id}
+        teams={filledByOptions}
+        onClose={() => setAccessOpen(false)}
+        onSave={saveAccess}
+      />
+
+      {/* Профили весов */}
+      <WeightsDialog
+        open={weightsOpen}
+        profiles={weightProfiles}
+        activeId={activeProfile.id}
+        groups={groupedCriteria}
+        onClose={() => setWeightsOpen(false)}
+        onSave={saveWeightProfiles}
+      />
+
+      {/* Критерий: создание и правка */}
+      <CriterionDialog
+        criterion={criterionEdit?.criterion ?? null}
+        isNew={!!criterionEdit?.isNew}
+        groups={groupNames}
+        onClose={() => setCriterionEdit(null)}
+        onSave={(c) => saveCriterion(c, !!criterionEdit?.isNew)}
+      />
+
+      {/* Отмена удаления критерия */}
+      {deletedCriterion && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 rounded-md bg-black text-white px-4 py-2 text-sm shadow-lg">
+          <span>Критерий «{deletedCriterion.name}» удалён</span>
+          <Button size="sm" variant="secondary" onClick={() => setCriterionDeleted(deletedCriterion, false)}>
+            <Undo2 className="h-4 w-4 mr-1" /> Отменить
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,37 @@
+// src/access.ts
+// Права на вкладку: роль пользователя (просмотр / редактор / администратор) и закрепление критерия за командой.
+// Одни и те же правила проверяют интерфейс (прячет кнопки) и локальный бэкенд (отклоняет запись).
+import type { Criterion, Role, TabAccess } from './api';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Просмотр',
+  editor: 'Редактор',
+  admin: 'Администратор',
+};
+
+const normTeam = (t: string) => t.trim().toLowerCase();
+
+export const memberOf = (access: TabAccess | undefined, userId?: string) =>
+  userId ? access?.members.find((m) => m.userId.toLowerCase() === userId.toLowerCase()) : undefined;
+
+// вкладка без настроек доступа открыта всем вошедшим — как было до появления ролей
+export function roleOf(access: TabAccess | undefined, userId?: string): Role {
+  if (!access) return 'admin';
+  return memberOf(access, userId)?.role ?? access.defaultRole;
+}
+
+export const canEdit = (role: Role) => role !== 'viewer';
+export const canAdmin = (role: Role) => role === 'admin';
+
+// почему нельзя править ячейку критерия; null — можно
+export function cellEditDenial(access: TabAccess | undefined, userId: string | undefined, criterion?: Criterion): string | null {
+  const role = roleOf(access, userId);
+  if (!canEdit(role)) return 'У вас доступ только на просмотр этой вкладки';
+  if (canAdmin(role) || !criterion?.filledByOnly || !criterion.filledBy?.trim()) return null;
+  const teams = (memberOf(access, userId)?.teams || []).map(normTeam);
+  return teams.includes(normTeam(criterion.filledBy)) ? null : `Критерий заполняет команда «${criterion.filledBy.trim()}»`;
+}
+
+export const parseTeams = (text: string) => Array.from(new Set(text.split(',').map((t) => t.trim()).filter(Boolean)));
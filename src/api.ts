@@ -1,10 +1,21 @@
 // src/api.ts
-export const API = import.meta.env.VITE_GAS_URL as string;
+import { createAppsScriptDataSource } from './sources/appsScript';
+import { createLocalDataSource } from './sources/local';
 
-function must(url?: string) {
-  if (!url) throw new Error('VITE_GAS_URL не задан. Добавь его в .env');
-  return url;
-}
+export const API = (import.meta as any).env?.VITE_GAS_URL as string | undefined;
+// 'gas' | 'local'; по умолчанию — Apps Script, если задан VITE_GAS_URL, иначе локальный бэкенд
+const DATA_SOURCE = (import.meta as any).env?.VITE_DATA_SOURCE as string | undefined;
+
+// тип значения критерия; text — как раньше, только текст
+export type ValueType = 'text' | 'boolean' | 'rating' | 'money' | 'number' | 'select' | 'multiselect';
+
+// структурированное значение ячейки; текст ячейки при этом остаётся комментарием
+export type CellValue =
+  | { kind: 'boolean'; value: 'yes' | 'no' | 'partial' }
+  | { kind: 'rating'; value: number } // 1–5
+  | { kind: 'money'; amount: number; currency: string } // ISO 4217: RUB, USD…
+  | { kind: 'number'; value: number; unit?: string }
+  | { kind: 'select'; values: string[] }; // для select — ровно одно значение
 
 // типы данных, которые отдаёт Apps Script для action=cells
 export type Criterion = {
@@ -12,75 +23,252 @@ export type Criterion = {
   name: string;
   group?: string;
   description?: string;
-  filledBy?: string;
+  filledBy?: string; // команда, которая заполняет критерий
+  filledByOnly?: boolean; // править ячейки может только команда filledBy (и администраторы вкладки)
+  deleted?: boolean; // мягкое удаление: строка скрыта, ячейки сохранены
+  valueType?: ValueType;
+  options?: string[]; // варианты для select/multiselect
+  unit?: string; // единица для number
+  currency?: string; // валюта по умолчанию для money
+  scoreDirection?: 'higher' | 'lower'; // что лучше для money/number при подсчёте баллов
 };
 
 export type Course = {
   id: string;
   name: string;
+  provider?: string; // школа/компания
+  url?: string; // страница курса
+  logo?: string; // ссылка на логотип
+  archived?: boolean; // убран из сетки, но данные на месте
+  competitorId?: string; // один и тот же конкурент на разных вкладках — у каждой свой cN
+};
+
+// конкурент — общая для всех вкладок сущность, к которой привязываются курсы
+export type Competitor = {
+  id: string;
+  name: string;
+  url?: string;
+};
+
+// пометка поверх скриншота; координаты — доли ширины и высоты картинки (0–1), так она не зависит от масштаба показа
+export type Annotation =
+  | { kind: 'rect' | 'highlight'; x: number; y: number; w: number; h: number; color: string }
+  | { kind: 'arrow'; x1: number; y1: number; x2: number; y2: number; color: string }
+  | { kind: 'callout'; x: number; y: number; n: number; color: string }; // кружок с номером
+
+export type CellImage = {
+  url: string;
+  caption?: string;
+  annotations?: Annotation[];
 };
 
 export type Cell = {
   courseId: string;
   criterionId: string;
   text?: string;
-  images?: string[];
+  images?: CellImage[]; // старые бэкенды отдают строки — источники приводят их к CellImage
+  value?: CellValue;
+  score?: number; // ручной балл 0–5, перекрывает выведенный из value
+  // версия ячейки на бэкенде: растёт с каждой записью, по ней ловим конфликты
+  revision?: number;
+  updatedAt?: string; // ISO
+  updatedBy?: string;
+};
+
+export type CellVersion = Pick<Cell, 'revision' | 'updatedAt' | 'updatedBy'>;
+
+// запись журнала правок ячейки: снимок после каждой записи, только дописывается
+export type CellHistoryEntry = CellVersion & {
+  text?: string;
+  images: CellImage[];
+  value?: CellValue;
+  score?: number;
+};
+
+// именованный набор весов критериев; нет веса — считаем 1
+export type WeightProfile = {
+  id: string;
+  name: string;
+  weights: Record<string, number>;
 };
 
 export type MatrixData = {
   criteria: Criterion[];
   courses: Course[];
   cells: Cell[];
+  groups?: string[]; // порядок групп критериев, включая пока пустые
+  weightProfiles?: WeightProfile[];
+  access?: TabAccess; // нет — вкладка не настроена, править может любой вошедший
 };
 
-type CellsResponse = {
-  ok: boolean;
-  data: MatrixData;
-  error?: string;
+export type Role = 'viewer' | 'editor' | 'admin';
+
+// участник вкладки; userId — User.id из сессии (логин)
+export type AccessMember = {
+  userId: string;
+  role: Role;
+  teams?: string[]; // сравниваются с Criterion.filledBy
 };
 
-// чтение ячеек
-export async function getCells(tab: string): Promise<MatrixData> {
-  const r = await fetch(`${must(API)}?action=cells&tab=${encodeURIComponent(tab)}`);
-  if (!r.ok) throw new Error(`GET ${r.status}`);
+// права на вкладку: кто не перечислен в members, получает defaultRole
+export type TabAccess = {
+  defaultRole: Role;
+  members: AccessMember[];
+};
 
-  const json: CellsResponse = await r.json();
-  if (!json.ok) throw new Error(json.error || "cells error");
+// именованный снимок вкладки на дату; сами данные грузятся отдельно — список остаётся лёгким
+export type Snapshot = {
+  id: string;
+  name: string;
+  createdAt: string; // ISO
+  createdBy?: string;
+};
 
-  return json.data;
-}
+// вкладка из индекса __tabs: id для UI, sheet — имя листа в источнике
+export type Tab = {
+  id: string;
+  label: string;
+  sheet: string;
+};
 
-// сохранение ячейки (text/images/courseId — опционально)
-export async function saveCell(payload: {
+export type UpsertCellPayload = {
   tab: string;
+  courseId: string;
   criterionId: string;
-  text?: string;
-  images?: string[] | string;
-  courseId?: string; // вида c1, c2...
-}) {
-  const r = await fetch(must(API), {
-    method: 'POST',
-    headers: { 'Content-Type': 'text/plain' }, // под твой parseBody()
-    body: JSON.stringify({ action: 'savecell', ...payload }),
-  });
-  if (!r.ok) throw new Error(`POST ${r.status}`);
-  return r.json();
-}
+  criterion?: string; // имя критерия — Apps Script пишет его в строку, если её ещё нет
+  text: string;
+  images: CellImage[];
+  value?: CellValue;
+  score?: number;
+  updatedBy?: string;
+  baseRevision?: number; // версия, от которой шла правка; не совпала с текущей — ConflictError
+};
 
-// запись метаданных критерия (если используешь)
-export async function upsertCriterion(payload: {
+export type UpsertCriterionPayload = {
   tab: string;
   criterionId: string;
   section?: string;
   criterion?: string;
   description?: string;
   filled_by?: string;
-}) {
-  const r = await fetch(must(API), {
-    method: 'POST',
-    headers: { 'Content-Type': 'text/plain' },
-    body: JSON.stringify({ action: 'upsertcriterion', ...payload }),
-  });
-  if (!r.ok) throw new Error(`POST ${r.status}`);
-  return r.json();
+  filled_by_only?: boolean;
+  deleted?: boolean;
+  value_type?: ValueType;
+  options?: string[];
+  unit?: string;
+  currency?: string;
+  score_direction?: 'higher' | 'lower' | '';
+};
+
+// единая точка доступа к данным матрицы; реализации — в src/sources
+export interface MatrixDataSource {
+  readonly kind: 'gas' | 'local';
+  listTabs(): Promise<Tab[]>;
+  loadMatrix(tab: string): Promise<MatrixData>;
+  upsertCell(payload: UpsertCellPayload): Promise<CellVersion | void>;
+  getCellHistory(payload: { tab: string; courseId: string; criterionId: string }): Promise<CellHistoryEntry[]>; // от старых к новым
+  addCourse(payload: { tab: string; courseId: string; name?: string }): Promise<void>;
+  updateCourse(payload: { tab: string; course: Course }): Promise<void>;
+  reorderCourses(payload: { tab: string; order: string[] }): Promise<void>; // id курсов в новом порядке
+  deleteCourse(payload: { tab: string; courseId: string }): Promise<void>;
+  addCriterion(payload: { tab: string; criterion: Criterion }): Promise<void>;
+  upsertCriterion(payload: UpsertCriterionPayload): Promise<void>;
+  reorderCriteria(payload: { tab: string; order: string[] }): Promise<void>; // id критериев в новом порядке
+  setGroups(payload: { tab: string; groups: string[] }): Promise<void>;
+  renameGroup(payload: { tab: string; from: string; to: string }): Promise<void>; // заодно переносит критерии группы
+  saveWeightProfiles(payload: { tab: string; profiles: WeightProfile[] }): Promise<void>;
+  saveAccess(payload: { tab: string; access: TabAccess }): Promise<void>; // только администратор вкладки
+  listCompetitors(): Promise<Competitor[]>;
+  upsertCompetitor(payload: { tab: string; competitor: Competitor }): Promise<void>; // одна запись; права — редактор вкладки tab, откуда правят
+  listSnapshots(tab: string): Promise<Snapshot[]>; // от новых к старым
+  loadSnapshot(payload: { tab: string; snapshotId: string }): Promise<MatrixData>;
+  createSnapshot(payload: { tab: string; name: string; createdBy?: string }): Promise<Snapshot>; // снимает то, что сейчас на бэкенде
+  deleteSnapshot(payload: { tab: string; snapshotId: string }): Promise<void>;
+  uploadImage(payload: { tab: string; courseId: string; criterionId: string; file: Blob; name: string }): Promise<string>; // ссылка для Cell.images
+}
+
+// пользователь после входа; name попадает в updatedBy ячеек и createdBy снимков
+export type User = {
+  id: string;
+  name: string;
+  email?: string;
+};
+
+export type Session = {
+  token: string; // подписан провайдером, бэкенд проверяет его на каждом запросе
+  user: User;
+  expiresAt: number; // мс с эпохи
+};
+
+// вход; реализации — рядом с источниками данных в src/sources
+export interface AuthProvider {
+  readonly kind: 'gas' | 'local';
+  login(credentials: { login: string; password: string }): Promise<Session>;
+  logout(session: Session): Promise<void>;
+  verify?(token: string): Promise<boolean>; // проверка сохранённой сессии при запуске
+}
+
+// бэкенд отклонил запись: ячейку успели изменить после baseRevision
+export class ConflictError extends Error {
+  constructor(public current: Cell) {
+    super('CONFLICT');
+    this.name = 'ConflictError';
+  }
+}
+
+// бэкенд отклонил запись по правам: роль на вкладке или критерий закреплён за другой командой
+export class ForbiddenError extends Error {
+  constructor(message = 'Недостаточно прав') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// неверный логин или пароль — в отличие от сетевых ошибок, повтор не поможет
+export class AuthError extends Error {
+  constructor(message = 'Неверный логин или пароль') {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// сессия для источников данных и outbox; подключает main.tsx (connectSession(auth)), так api не зависит от auth
+export type SessionAccess = {
+  token: () => string | undefined;
+  user: () => User | null;
+  expire: () => void; // бэкенд отклонил токен
+};
+
+let session: SessionAccess = { token: () => undefined, user: () => null, expire: () => {} };
+
+export function connectSession(access: SessionAccess) {
+  session = access;
+}
+
+export const currentUser = () => session.user();
+
+function pickDataSource(): MatrixDataSource {
+  const kind = DATA_SOURCE || (API ? 'gas' : 'local');
+  if (kind === 'local') return createLocalDataSource({ user: currentUser });
+  // токен берём при каждом запросе: сессия меняется после входа и выхода
+  if (kind === 'gas') return createAppsScriptDataSource(API, { token: () => session.token(), onUnauthorized: () => session.expire() });
+  console.warn(`Неизвестный VITE_DATA_SOURCE: ${kind}, использую локальный бэкенд`);
+  return createLocalDataSource({ user: currentUser });
+}
+
+export const dataSource: MatrixDataSource = pickDataSource();
+
+// чтение ячеек
+export function getCells(tab: string): Promise<MatrixData> {
+  return dataSource.loadMatrix(tab);
+}
+
+// сохранение ячейки
+export function saveCell(payload: UpsertCellPayload) {
+  return dataSource.upsertCell(payload);
+}
+
+// запись метаданных критерия
+export function upsertCriterion(payload: UpsertCriterionPayload) {
+  return dataSource.upsertCriterion(payload);
 }
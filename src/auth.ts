@@ -0,0 +1,113 @@
+// src/auth.ts
+// Вход и сессия пользователя. Пароль проверяет провайдер (Apps Script — на сервере), в браузере хранится
+// только выданный им подписанный токен с именем пользователя и сроком действия. Секретов в бандле нет.
+import { useSyncExternalStore } from 'react';
+import type { AuthProvider, Session } from './api';
+import { createAppsScriptAuthProvider } from './sources/appsScript';
+import { createLocalAuthProvider } from './sources/local';
+
+const GAS_URL = (import.meta as any).env?.VITE_GAS_URL as string | undefined;
+// 'gas' | 'local'; по умолчанию тот же бэкенд, что и для данных (VITE_DATA_SOURCE)
+const AUTH_PROVIDER = (import.meta as any).env?.VITE_AUTH_PROVIDER as string | undefined
+  ?? (import.meta as any).env?.VITE_DATA_SOURCE as string | undefined;
+
+const STORAGE_KEY = 'cmatrix_session';
+
+export type AuthSnapshot = {
+  session: Session | null;
+  checking: boolean; // сохранённая сессия ещё проверяется
+  expired: boolean; // вышли не сами: истёк срок или бэкенд отклонил токен
+};
+
+// setTimeout дальше ~24.8 суток не умеет
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function readStored(): Session | null {
+  try {
+    const s = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as Session | null;
+    return s?.token && s.user?.name && s.expiresAt > Date.now() ? s : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStored(s: Session | null) {
+  try {
+    if (s) localStorage.setItem(STORAGE_KEY, JSON.stringify(s));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch { /* приватный режим — сессия живёт до перезагрузки */ }
+}
+
+export function createAuth(provider: AuthProvider) {
+  const stored = typeof window !== 'undefined' ? readStored() : null;
+  let snapshot: AuthSnapshot = { session: stored, checking: !!(stored && provider.verify), expired: false };
+  const listeners = new Set<() => void>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function emit(patch: Partial<AuthSnapshot>) {
+    snapshot = { ...snapshot, ...patch };
+    listeners.forEach((l) => l());
+  }
+
+  function schedule() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const s = snapshot.session;
+    if (!s) return;
+    timer = setTimeout(() => (s.expiresAt <= Date.now() ? expire() : schedule()), Math.min(MAX_TIMER_MS, Math.max(0, s.expiresAt - Date.now())));
+  }
+
+  function setSession(session: Session | null, expired = false) {
+    writeStored(session);
+    emit({ session, expired, checking: false });
+    schedule();
+  }
+
+  async function login(credentials: { login: string; password: string }) {
+    setSession(await provider.login(credentials));
+  }
+
+  async function logout() {
+    const s = snapshot.session;
+    setSession(null);
+    if (s) await provider.logout(s).catch(() => { /* токен и так забыт */ });
+  }
+
+  // срок вышел или бэкенд ответил UNAUTHORIZED — просим войти заново, неотправленные правки остаются в outbox
+  function expire() {
+    if (snapshot.session) setSession(null, true);
+  }
+
+  if (stored && provider.verify) {
+    provider.verify(stored.token)
+      .then((ok) => (ok ? emit({ checking: false }) : setSession(null, true)))
+      .catch(() => emit({ checking: false })); // нет сети — поверим сроку, бэкенд всё равно проверит токен
+  }
+  schedule();
+
+  return {
+    kind: provider.kind,
+    login,
+    logout,
+    expire,
+    token: () => snapshot.session?.token,
+    user: () => snapshot.session?.user ?? null,
+    subscribe(l: () => void) { listeners.add(l); return () => { listeners.delete(l); }; },
+    getSnapshot: () => snapshot,
+  };
+}
+
+export type Auth = ReturnType<typeof createAuth>;
+
+function pickAuthProvider(): AuthProvider {
+  const kind = AUTH_PROVIDER || (GAS_URL ? 'gas' : 'local');
+  if (kind === 'gas') return createAppsScriptAuthProvider(GAS_URL);
+  if (kind !== 'local') console.warn(`Неизвестный VITE_AUTH_PROVIDER: ${kind}, использую локальный вход`);
+  return createLocalAuthProvider();
+}
+
+export const auth: Auth = createAuth(pickAuthProvider());
+
+export function useAuth(): AuthSnapshot {
+  return useSyncExternalStore(auth.subscribe, auth.getSnapshot);
+}
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import type { AccessMember, Role, TabAccess } from "@/api";
+import { ROLES, ROLE_LABELS, parseTeams, roleOf } from "@/access";
+
+type MemberDraft = { userId: string; role: Role; teams: string };
+
+// Доступ к вкладке: роль по умолчанию и участники с ролями и командами (команды сверяются с «Заполняет» критериев)
+export function AccessDialog({ open, access, userId, teams, onClose, onSave }: {
+  open: boolean;
+  access?: TabAccess;
+  userId?: string; // текущий пользователь — чтобы не отнять права у самого себя по ошибке
+  teams: string[]; // подсказки: команды из «Заполняет» критериев вкладки
+  onClose: () => void;
+  onSave: (access: TabAccess) => void;
+}) {
+  const [defaultRole, setDefaultRole] = useState<Role>("editor");
+  const [members, setMembers] = useState<MemberDraft[]>([]);
+  useEffect(() => {
+    if (!open) return;
+    // вкладка ещё не настроена: первым участником-администратором ставим того, кто настраивает
+    const initial: AccessMember[] = access?.members ?? (userId ? [{ userId, role: "admin" }] : []);
+    setDefaultRole(access?.defaultRole ?? "editor");
+    setMembers(initial.map((m) => ({ userId: m.userId, role: m.role, teams: (m.teams || []).join(", ") })));
+  }, [open, access, userId]);
+
+  const patch = (i: number, next: Partial<MemberDraft>) => setMembers((prev) => prev.map((m, j) => (j === i ? { ...m, ...next } : m)));
+
+  const save = () => {
+    const seen = new Set<string>();
+    const result: TabAccess = {
+      defaultRole,
+      members: members
+        .map((m) => ({ userId: m.userId.trim(), role: m.role, teams: parseTeams(m.teams) }))
+        .filter((m) => m.userId && !seen.has(m.userId.toLowerCase()) && seen.add(m.userId.toLowerCase()))
+        .map((m) => ({ userId: m.userId, role: m.role, ...(m.teams.length && { teams: m.teams }) })),
+    };
+    if (roleOf(result, userId) !== "admin" && !window.confirm("После сохранения вы перестанете быть администратором этой вкладки и не сможете вернуть себе права. Продолжить?")) return;
+    onSave(result);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl w-[min(96vw,40rem)] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Доступ к вкладке</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="access-default">Остальным пользователям</Label>
+            <select id="access-default" value={defaultRole} onChange={(e) => setDefaultRole(e.target.value as Role)} className="border rounded-md px-2 py-1 text-sm">
+              {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Редактор правит ячейки и курсы; критерии, группы, веса и доступ меняет администратор.
+            Если у критерия включено «только команда», его ячейки правят участники этой команды и администраторы.
+          </div>
+          <datalist id="access-teams">
+            {teams.map((t) => <option key={t} value={t} />)}
+          </datalist>
+          <div className="flex flex-col gap-2">
+            {members.map((m, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input value={m.userId} onChange={(e) => patch(i, { userId: e.target.value })} placeholder="Логин" className="w-40 border rounded-md px-2 py-1 text-sm" />
+                <select value={m.role} onChange={(e) => patch(i, { role: e.target.value as Role })} className="border rounded-md px-2 py-1 text-sm">
+                  {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <input value={m.teams} onChange={(e) => patch(i, { teams: e.target.value })} list="access-teams" placeholder="Команды через запятую" className="flex-1 border rounded-md px-2 py-1 text-sm" />
+                <Button size="icon" variant="ghost" title="Убрать участника" onClick={() => setMembers((prev) => prev.filter((_, j) => j !== i))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button size="sm" variant="outline" className="self-start" onClick={() => setMembers((prev) => [...prev, { userId: "", role: "editor", teams: "" }])}>
+              <Plus className="h-4 w-4 mr-1" /> Участник
+            </Button>
+          </div>
+        </div>
+        <DialogFooter className="pt-2">
+          <Button size="sm" onClick={save}>Сохранить</Button>
+          <Button size="sm" variant="outline" onClick={onClose}>Отмена</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
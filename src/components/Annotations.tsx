@@ -0,0 +1,219 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { ArrowUpRight, Eraser, Highlighter, Square, Undo2 } from "lucide-react";
+import type { Annotation, CellImage } from "@/api";
+import { Img } from "@/components/Img";
+
+export const ANNOTATION_COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#3b82f6"];
+
+type Tool = Annotation["kind"] | "erase";
+type Point = { x: number; y: number };
+type Box = { left: number; top: number; width: number; height: number };
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+const round = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 10000) / 10000;
+
+// Пометки поверх картинки. Координаты в процентах — слой растягивается ровно на картинку.
+// compact — для миниатюр: тоньше линии и мельче номера
+export function AnnotationLayer({ annotations, compact, style, onPick }: {
+  annotations: Annotation[];
+  compact?: boolean;
+  style?: React.CSSProperties;
+  onPick?: (index: number) => void; // режим «ластик»: щелчок по пометке
+}) {
+  const uid = useId().replace(/:/g, "");
+  const stroke = compact ? 1.5 : 3;
+  const r = compact ? 6 : 12;
+  const colors = Array.from(new Set(annotations.filter((a) => a.kind === "arrow").map((a) => a.color)));
+  const markerId = (color: string) => `${uid}-arrow-${colors.indexOf(color)}`;
+  return (
+    <svg className={"absolute inset-0 w-full h-full overflow-visible " + (onPick ? "" : "pointer-events-none")} style={style}>
+      <defs>
+        {colors.map((c) => (
+          <marker key={c} id={markerId(c)} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="4" markerHeight="4" orient="auto-start-reverse">
+            <path d="M0,0 L10,5 L0,10 z" fill={c} />
+          </marker>
+        ))}
+      </defs>
+      {annotations.map((a, i) => {
+        const pick = onPick && { onPointerDown: (e: React.PointerEvent) => { e.stopPropagation(); onPick(i); }, className: "cursor-pointer" };
+        if (a.kind === "arrow") {
+          return <line key={i} x1={pct(a.x1)} y1={pct(a.y1)} x2={pct(a.x2)} y2={pct(a.y2)} stroke={a.color} strokeWidth={stroke} strokeLinecap="round" markerEnd={`url(#${markerId(a.color)})`} {...pick} />;
+        }
+        if (a.kind === "callout") {
+          return (
+            <g key={i} {...pick}>
+              <circle cx={pct(a.x)} cy={pct(a.y)} r={r} fill={a.color} stroke="#fff" strokeWidth={compact ? 1 : 2} />
+              <text x={pct(a.x)} y={pct(a.y)} dy="0.35em" textAnchor="middle" fill="#fff" fontSize={compact ? 8 : 13} fontWeight={700}>{a.n}</text>
+            </g>
+          );
+        }
+        return a.kind === "highlight"
+          ? <rect key={i} x={pct(a.x)} y={pct(a.y)} width={pct(a.w)} height={pct(a.h)} fill={a.color} fillOpacity={0.3} {...pick} />
+          : <rect key={i} x={pct(a.x)} y={pct(a.y)} width={pct(a.w)} height={pct(a.h)} fill="none" stroke={a.color} strokeWidth={stroke} rx={2} {...pick} />;
+      })}
+    </svg>
+  );
+}
+
+// где внутри рамки оказывается сама картинка при object-fit: contain / cover
+function fittedBox(frame: { width: number; height: number }, natural: { width: number; height: number }, fit: "contain" | "cover"): Box {
+  const k = (fit === "contain" ? Math.min : Math.max)(frame.width / natural.width, frame.height / natural.height);
+  const width = natural.width * k;
+  const height = natural.height * k;
+  return { left: (frame.width - width) / 2, top: (frame.height - height) / 2, width, height };
+}
+
+// Картинка ячейки с пометками. fit="contain"/"cover" — картинка вписана в рамку className (у рамки должен быть размер);
+// fit="none" — рамка облегает картинку, её размер задаёт imgClassName
+export function AnnotatedImg({ image, className = "", imgClassName = "", fit = "contain", compact, lazy }: {
+  image: CellImage;
+  className?: string;
+  imgClassName?: string;
+  fit?: "contain" | "cover" | "none";
+  compact?: boolean;
+  lazy?: boolean;
+}) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [frame, setFrame] = useState<{ width: number; height: number } | null>(null);
+  const annotations = image.annotations || [];
+
+  useEffect(() => {
+    const el = frameRef.current;
+    if (!el || fit === "none" || !annotations.length) return;
+    const ro = new ResizeObserver(() => setFrame({ width: el.clientWidth, height: el.clientHeight }));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [fit, annotations.length > 0]);
+
+  const box = fit !== "none" && natural && frame ? fittedBox(frame, natural, fit) : null;
+  const alt = image.caption || "скриншот";
+  return (
+    <div ref={frameRef} className={"relative overflow-hidden " + (fit === "none" ? "inline-block " : "") + className}>
+      <Img
+        key={image.url}
+        url={image.url}
+        alt={alt}
+        lazy={lazy}
+        className={fit === "none" ? "block " + imgClassName : `w-full h-full ${fit === "cover" ? "object-cover" : "object-contain"} ${imgClassName}`}
+        onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+      />
+      {annotations.length > 0 && (fit === "none" || box) && <AnnotationLayer annotations={annotations} compact={compact} style={box ?? undefined} />}
+    </div>
+  );
+}
+
+const TOOLS: { tool: Tool; label: string; icon: React.ReactNode }[] = [
+  { tool: "rect", label: "Рамка", icon: <Square className="h-4 w-4" /> },
+  { tool: "arrow", label: "Стрелка", icon: <ArrowUpRight className="h-4 w-4" /> },
+  { tool: "highlight", label: "Выделение", icon: <Highlighter className="h-4 w-4" /> },
+  { tool: "callout", label: "Номер", icon: <span className="inline-flex h-4 w-4 items-center justify-center rounded-full bg-current text-[10px] font-bold"><span className="text-white">1</span></span> },
+  { tool: "erase", label: "Убрать пометку", icon: <Eraser className="h-4 w-4" /> },
+];
+
+// Редактор пометок: рисуем мышью поверх картинки, результат — векторные данные в CellImage.annotations
+export function AnnotationEditor({ image, onSave, onClose }: {
+  image: CellImage | null;
+  onSave: (annotations: Annotation[]) => void;
+  onClose: () => void;
+}) {
+  const [items, setItems] = useState<Annotation[]>([]);
+  const [tool, setTool] = useState<Tool>("rect");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [drag, setDrag] = useState<{ from: Point; to: Point } | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => { setItems(image?.annotations || []); setDrag(null); }, [image]);
+
+  const pointAt = (e: React.PointerEvent): Point => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return { x: round((e.clientX - rect.left) / rect.width), y: round((e.clientY - rect.top) / rect.height) };
+  };
+
+  const shapeOf = (from: Point, to: Point): Annotation | null => {
+    if (Math.hypot(to.x - from.x, to.y - from.y) < 0.01) return null; // случайный щелчок, а не рисование
+    if (tool === "arrow") return { kind: "arrow", x1: from.x, y1: from.y, x2: to.x, y2: to.y, color };
+    if (tool !== "rect" && tool !== "highlight") return null;
+    return { kind: tool, x: Math.min(from.x, to.x), y: Math.min(from.y, to.y), w: round(Math.abs(to.x - from.x)), h: round(Math.abs(to.y - from.y)), color };
+  };
+
+  function onPointerDown(e: React.PointerEvent) {
+    if (tool === "erase") return;
+    const p = pointAt(e);
+    if (tool === "callout") {
+      const n = Math.max(0, ...items.map((a) => (a.kind === "callout" ? a.n : 0))) + 1;
+      setItems((prev) => [...prev, { kind: "callout", x: p.x, y: p.y, n, color }]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ from: p, to: p });
+  }
+
+  function onPointerUp() {
+    if (!drag) return;
+    const shape = shapeOf(drag.from, drag.to);
+    if (shape) setItems((prev) => [...prev, shape]);
+    setDrag(null);
+  }
+
+  const draft = drag && shapeOf(drag.from, drag.to);
+
+  return (
+    <Dialog open={!!image} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl w-[min(96vw,64rem)]">
+        {image && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Пометки на скриншоте</DialogTitle>
+            </DialogHeader>
+            <div className="flex flex-wrap items-center gap-1 mb-2">
+              {TOOLS.map((t) => (
+                <Button key={t.tool} size="sm" variant={tool === t.tool ? "secondary" : "outline"} onClick={() => setTool(t.tool)} title={t.label}>
+                  {t.icon}<span className="ml-1 hidden sm:inline">{t.label}</span>
+                </Button>
+              ))}
+              <div className="flex gap-1 mx-2">
+                {ANNOTATION_COLORS.map((c) => (
+                  <button
+                    key={c}
+                    type="button"
+                    onClick={() => setColor(c)}
+                    className={"h-6 w-6 rounded-full border-2 " + (color === c ? "border-gray-900" : "border-white")}
+                    style={{ background: c }}
+                    aria-label={`Цвет ${c}`}
+                  />
+                ))}
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setItems((prev) => prev.slice(0, -1))} disabled={!items.length} title="Отменить последнюю">
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setItems([])} disabled={!items.length}>Убрать все</Button>
+            </div>
+            <div className="flex justify-center bg-black/5 rounded border p-2 overflow-auto">
+              <div
+                ref={surfaceRef}
+                className={"relative inline-block select-none touch-none " + (tool === "erase" ? "cursor-default" : "cursor-crosshair")}
+                onPointerDown={onPointerDown}
+                onPointerMove={(e) => { if (drag) { const p = pointAt(e); setDrag((d) => d && { ...d, to: p }); } }}
+                onPointerUp={onPointerUp}
+                onPointerCancel={() => setDrag(null)}
+              >
+                <Img url={image.url} alt={image.caption || "скриншот"} className="block max-h-[65vh] max-w-full pointer-events-none" />
+                <AnnotationLayer
+                  annotations={draft ? [...items, draft] : items}
+                  onPick={tool === "erase" ? (i) => setItems((prev) => prev.filter((_, j) => j !== i)) : undefined}
+                />
+              </div>
+            </div>
+            <DialogFooter className="pt-2">
+              <Button onClick={() => onSave(items)}>Готово</Button>
+              <Button variant="outline" onClick={onClose}>Отмена</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { RotateCcw } from "lucide-react";
+import { dataSource, type CellHistoryEntry, type CellImage } from "@/api";
+import { diffWords } from "@/textDiff";
+import { AnnotatedImg } from "@/components/Annotations";
+import { formatValue } from "@/values";
+import { formatScore } from "@/scoring";
+
+export function TextDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <div className="text-sm whitespace-pre-wrap break-words">
+      {diffWords(before, after).map((p, i) =>
+        p.type === "same" ? <span key={i}>{p.text}</span>
+          : p.type === "add" ? <ins key={i} className="bg-green-100 text-green-900 no-underline">{p.text}</ins>
+          : <del key={i} className="bg-red-100 text-red-900">{p.text}</del>
+      )}
+    </div>
+  );
+}
+
+// картинки сравниваем по ссылке; у оставшихся могли поменяться подпись или пометки
+const sameMarkup = (a: CellImage, b: CellImage) => (a.caption || "") === (b.caption || "") && JSON.stringify(a.annotations || []) === JSON.stringify(b.annotations || []);
+
+function ImageChanges({ before, after }: { before: CellImage[]; after: CellImage[] }) {
+  const added = after.filter((img) => !before.some((b) => b.url === img.url));
+  const removed = before.filter((img) => !after.some((a) => a.url === img.url));
+  const edited = after.filter((img) => before.some((b) => b.url === img.url && !sameMarkup(b, img)));
+  if (!added.length && !removed.length && !edited.length) return null;
+  const thumb = (img: CellImage, key: string, className: string, title: string) => (
+    <div key={key} className={"border-2 rounded " + className} title={img.caption ? `${title}: ${img.caption}` : title}>
+      <AnnotatedImg image={img} className="h-14 w-14 rounded" fit="cover" compact />
+    </div>
+  );
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {added.map((img) => thumb(img, "+" + img.url, "border-green-400", "Добавлен скриншот"))}
+      {edited.map((img) => thumb(img, "~" + img.url, "border-amber-400", "Изменены подпись или пометки"))}
+      {removed.map((img) => thumb(img, "-" + img.url, "border-red-400 opacity-60", "Удалён скриншот"))}
+    </div>
+  );
+}
+
+// Журнал правок ячейки: новые сверху, у каждой — diff к предыдущей версии и откат
+export function CellHistory({ tab, courseId, criterionId, onRevert }: {
+  tab: string;
+  courseId: string;
+  criterionId: string;
+  onRevert: (entry: CellHistoryEntry) => void;
+}) {
+  const [entries, setEntries] = useState<CellHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+    dataSource.getCellHistory({ tab, courseId, criterionId })
+      .then((h) => { if (!cancelled) setEntries(h); })
+      .catch((e) => { if (!cancelled) setError(e?.message || String(e)); });
+    return () => { cancelled = true; };
+  }, [tab, courseId, criterionId]);
+
+  if (error) return <div className="text-sm text-red-600">Не удалось загрузить историю: {error}</div>;
+  if (!entries) return <div className="text-sm text-muted-foreground">Загружаю историю…</div>;
+  if (!entries.length) return <div className="text-sm text-muted-foreground">Правок пока не было.</div>;
+
+  return (
+    <ol className="flex flex-col gap-3">
+      {entries.map((e, i) => ({ e, i })).reverse().map(({ e, i }) => {
+        const prev = entries[i - 1];
+        const isLatest = i === entries.length - 1;
+        return (
+          <li key={i} className="border-l-2 border-gray-300 pl-3">
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <div className="text-xs text-muted-foreground">
+                {[e.updatedBy || "—", e.updatedAt && new Date(e.updatedAt).toLocaleString("ru-RU"), e.revision !== undefined && `версия ${e.revision}`].filter(Boolean).join(" · ")}
+                {isLatest && <span className="ml-2 font-medium text-black">текущая</span>}
+              </div>
+              {!isLatest && (
+                <Button size="sm" variant="outline" onClick={() => onRevert(e)}>
+                  <RotateCcw className="h-4 w-4 mr-1" /> Вернуть
+                </Button>
+              )}
+            </div>
+            {formatValue(prev?.value) !== formatValue(e.value) && (
+              <div className="text-sm mb-1">
+                Значение: <span className="line-through text-red-800">{formatValue(prev?.value) || "—"}</span> → <span className="text-green-800">{formatValue(e.value) || "—"}</span>
+              </div>
+            )}
+            {prev?.score !== e.score && (
+              <div className="text-sm mb-1">
+                Балл: <span className="line-through text-red-800">{formatScore(prev?.score)}</span> → <span className="text-green-800">{formatScore(e.score)}</span>
+              </div>
+            )}
+            <TextDiff before={prev?.text || ""} after={e.text || ""} />
+            <ImageChanges before={prev?.images || []} after={e.images} />
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useState } from "react";
+import { Check, X, Minus, Star } from "lucide-react";
+import type { CellValue, Criterion } from "@/api";
+import { BOOLEAN_LABELS, DEFAULT_CURRENCY, formatMoney, valueTypeOf } from "@/values";
+
+const BOOLEAN_ICONS = {
+  yes: <Check className="h-4 w-4 text-green-600" />,
+  no: <X className="h-4 w-4 text-red-600" />,
+  partial: <Minus className="h-4 w-4 text-amber-600" />,
+};
+
+function Stars({ value, onChange }: { value: number; onChange?: (v: number) => void }) {
+  return (
+    <span className="inline-flex">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <Star
+          key={n}
+          className={"h-4 w-4 " + (n <= value ? "fill-amber-400 text-amber-400" : "text-gray-300") + (onChange ? " cursor-pointer" : "")}
+          onClick={onChange ? () => onChange(n) : undefined}
+        />
+      ))}
+    </span>
+  );
+}
+
+// Компактное отображение значения в карточке ячейки
+export function ValueView({ value }: { value?: CellValue }) {
+  if (!value) return null;
+  switch (value.kind) {
+    case "boolean":
+      return <span className="inline-flex items-center gap-1 font-medium">{BOOLEAN_ICONS[value.value]} {BOOLEAN_LABELS[value.value]}</span>;
+    case "rating":
+      return <Stars value={value.value} />;
+    case "money":
+      return <span className="font-medium tabular-nums">{formatMoney(value.amount, value.currency)}</span>;
+    case "number":
+      return <span className="font-medium tabular-nums">{value.value.toLocaleString("ru-RU")}{value.unit ? ` ${value.unit}` : ""}</span>;
+    case "select":
+      return (
+        <span className="inline-flex flex-wrap gap-1">
+          {value.values.map((v) => <span key={v} className="rounded bg-gray-100 px-1.5 py-0.5 text-xs">{v}</span>)}
+        </span>
+      );
+  }
+}
+
+const inputCls = "border rounded-md px-2 py-1 text-sm";
+
+// валюта — свой черновик: её можно выбрать до суммы, а значение без суммы не бывает
+function MoneyEditor({ criterion, value, onChange }: { criterion?: Criterion; value?: CellValue; onChange: (v?: CellValue) => void }) {
+  const [draftCurrency, setDraftCurrency] = useState(criterion?.currency || DEFAULT_CURRENCY);
+  const currency = value?.kind === "money" ? value.currency : draftCurrency;
+  const amount = value?.kind === "money" ? String(value.amount) : "";
+  return (
+    <div className="flex gap-2">
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={amount}
+        placeholder="Сумма"
+        onChange={(e) => {
+          setDraftCurrency(currency); // стёрли сумму — валюта остаётся выбранной
+          onChange(e.target.value === "" ? undefined : { kind: "money", amount: Number(e.target.value), currency });
+        }}
+        className={inputCls + " flex-1"}
+      />
+      <input
+        value={currency}
+        maxLength={3}
+        onChange={(e) => {
+          const next = e.target.value.toUpperCase();
+          setDraftCurrency(next);
+          if (value?.kind === "money") onChange({ ...value, currency: next });
+        }}
+        className={inputCls + " w-20 uppercase"}
+        title="Код валюты"
+      />
+    </div>
+  );
+}
+
+// Редактор значения под тип критерия; для text ничего не рисуем — там только текст
+export function ValueEditor({ criterion, value, onChange }: { criterion?: Criterion; value?: CellValue; onChange: (v?: CellValue) => void }) {
+  const type = valueTypeOf(criterion);
+  switch (type) {
+    case "text":
+      return null;
+    case "boolean":
+      return (
+        <div className="flex gap-2">
+          {(["yes", "partial", "no"] as const).map((b) => (
+            <button
+              key={b}
+              type="button"
+              className={"inline-flex items-center gap-1 rounded-md border px-2 py-1 text-sm " + (value?.kind === "boolean" && value.value === b ? "bg-gray-100 border-gray-500" : "")}
+              onClick={() => onChange(value?.kind === "boolean" && value.value === b ? undefined : { kind: "boolean", value: b })}
+            >
+              {BOOLEAN_ICONS[b]} {BOOLEAN_LABELS[b]}
+            </button>
+          ))}
+        </div>
+      );
+    case "rating":
+      return (
+        <div className="flex items-center gap-2">
+          <Stars value={value?.kind === "rating" ? value.value : 0} onChange={(n) => onChange({ kind: "rating", value: n })} />
+          {value && <button type="button" className="text-xs underline" onClick={() => onChange(undefined)}>сбросить</button>}
+        </div>
+      );
+    case "money":
+      return <MoneyEditor criterion={criterion} value={value} onChange={onChange} />;
+    case "number":
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            step="any"
+            value={value?.kind === "number" ? String(value.value) : ""}
+            onChange={(e) => onChange(e.target.value === "" ? undefined : { kind: "number", value: Number(e.target.value), unit: criterion?.unit })}
+            className={inputCls + " flex-1"}
+          />
+          {criterion?.unit && <span className="text-sm text-muted-foreground">{criterion.unit}</span>}
+        </div>
+      );
+    case "select":
+    case "multiselect": {
+      const selected = value?.kind === "select" ? value.values : [];
+      const toggle = (o: string) => {
+        const next = type === "select"
+          ? (selected.includes(o) ? [] : [o])
+          : (selected.includes(o) ? selected.filter((x) => x !== o) : [...selected, o]);
+        onChange(next.length ? { kind: "select", values: next } : undefined);
+      };
+      if (!criterion?.options?.length) return <div className="text-xs text-muted-foreground">У критерия не заданы варианты — добавьте их в карточке критерия.</div>;
+      return (
+        <div className="flex flex-wrap gap-2">
+          {criterion.options.map((o) => (
+            <label key={o} className="inline-flex items-center gap-1 text-sm">
+              <input type={type === "select" ? "radio" : "checkbox"} checked={selected.includes(o)} onChange={() => toggle(o)} onClick={() => { if (type === "select" && selected.includes(o)) toggle(o); }} />
+              {o}
+            </label>
+          ))}
+        </div>
+      );
+    }
+  }
+}
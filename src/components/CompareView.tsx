@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Star, X } from "lucide-react";
+import type { CellImage, CellValue, Course, Criterion } from "@/api";
+import { similarity } from "@/textDiff";
+import { formatValue } from "@/values";
+import { AnnotatedImg } from "@/components/Annotations";
+import { TextDiff } from "@/components/CellHistory";
+import { ValueView } from "@/components/CellValue";
+import { Markdown } from "@/components/Markdown";
+
+type CompareCell = { text?: string; value?: CellValue; images?: CellImage[] };
+
+export const COMPARE_MIN = 2;
+export const COMPARE_MAX = 4;
+// выше этого порога ячейки считаем одинаковыми и приглушаем
+const NEAR_IDENTICAL = 0.9;
+
+const contentOf = (cell?: CompareCell) => [formatValue(cell?.value), cell?.text || ""].filter(Boolean).join("\n");
+
+// Режим сравнения 2–4 курсов: первый выбранный — базовый, остальные сравниваются с ним
+export function CompareView({ courses, selected, onSelect, groups, getCell, courseLabel, onOpen, onClose }: {
+  courses: Course[];
+  selected: string[];
+  onSelect: (ids: string[]) => void;
+  groups: { name: string; criteria: Criterion[] }[];
+  getCell: (courseId: string, criterionId: string) => CompareCell | undefined;
+  courseLabel: (c: Course) => string;
+  onOpen: (courseId: string, criterionId: string) => void;
+  onClose: () => void;
+}) {
+  const [hideSame, setHideSame] = useState(false);
+  // общий индекс скриншота на строку — листаем все колонки синхронно
+  const [stripIndex, setStripIndex] = useState<Record<string, number>>({});
+
+  const picked = selected.map((id) => courses.find((c) => c.id === id)).filter((c): c is Course => !!c);
+  const [base, ...others] = picked;
+
+  const toggleCourse = (id: string) => {
+    if (selected.includes(id)) onSelect(selected.filter((x) => x !== id));
+    else if (selected.length < COMPARE_MAX) onSelect([...selected, id]);
+  };
+
+  // похожесть каждой ячейки на базовую; строка «одинаковая», если похожи все
+  const rows = groups.map((g) => ({
+    name: g.name,
+    criteria: g.criteria.map((k) => {
+      const baseContent = base ? contentOf(getCell(base.id, k.id)) : "";
+      const sim = Object.fromEntries(others.map((c) => [c.id, similarity(baseContent, contentOf(getCell(c.id, k.id)))]));
+      return { k, sim, same: others.every((c) => sim[c.id] >= NEAR_IDENTICAL) };
+    }).filter((r) => !hideSame || !r.same),
+  })).filter((g) => g.criteria.length > 0);
+
+  const canCompare = picked.length >= COMPARE_MIN;
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <span className="font-medium">Сравнить ({COMPARE_MIN}–{COMPARE_MAX}):</span>
+        {courses.map((c) => {
+          const on = selected.includes(c.id);
+          return (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() => toggleCourse(c.id)}
+              disabled={!on && selected.length >= COMPARE_MAX}
+              className={"rounded-md border px-2 py-0.5 text-xs disabled:opacity-40 " + (on ? "bg-gray-100 border-gray-500" : "text-muted-foreground")}
+            >
+              {selected[0] === c.id && <Star className="inline h-3 w-3 mr-1 fill-amber-400 text-amber-400" />}
+              {courseLabel(c)}
+            </button>
+          );
+        })}
+        <label className="inline-flex items-center gap-1 ml-2">
+          <input type="checkbox" checked={hideSame} onChange={(e) => setHideSame(e.target.checked)} />
+          Скрыть одинаковые
+        </label>
+        <Button size="sm" variant="ghost" className="ml-auto" onClick={onClose}><X className="h-4 w-4 mr-1" /> Выйти из сравнения</Button>
+      </div>
+
+      {!canCompare ? (
+        <div className="text-sm text-muted-foreground">Выберите хотя бы {COMPARE_MIN} курса.</div>
+      ) : (
+        <div className="grid" style={{ gridTemplateColumns: `240px repeat(${picked.length}, minmax(280px, 1fr))` }}>
+          <div className="font-medium border-b px-2 py-2">Критерий</div>
+          {picked.map((c, i) => (
+            <div key={c.id} className="font-medium border-b px-2 py-2 flex items-center gap-1">
+              <span className="truncate flex-1" title={courseLabel(c)}>{courseLabel(c)}</span>
+              {i === 0 ? (
+                <span className="text-xs font-normal text-muted-foreground">базовый</span>
+              ) : (
+                <Button size="sm" variant="ghost" title="Сравнивать с этим курсом" onClick={() => onSelect([c.id, ...selected.filter((x) => x !== c.id)])}>
+                  <Star className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {rows.map((g) => (
+            <React.Fragment key={g.name}>
+              <div className="col-span-full bg-gray-100 px-2 py-2 border-t font-semibold text-sm">{g.name}</div>
+              {g.criteria.map(({ k, sim, same }) => {
+                const maxImages = Math.max(0, ...picked.map((c) => getCell(c.id, k.id)?.images?.length || 0));
+                const idx = Math.min(stripIndex[k.id] || 0, Math.max(0, maxImages - 1));
+                const setIdx = (n: number) => setStripIndex((prev) => ({ ...prev, [k.id]: n }));
+                return (
+                  <React.Fragment key={k.id}>
+                    <div className={"border-r border-t px-2 py-2 text-sm " + (same ? "opacity-50" : "")}>
+                      <div className="font-medium">{k.name}</div>
+                      {maxImages > 1 && (
+                        <div className="flex items-center gap-1 mt-2">
+                          <Button size="icon" variant="outline" onClick={() => setIdx(Math.max(0, idx - 1))} disabled={idx <= 0} aria-label="Предыдущие скриншоты">
+                            <ChevronLeft className="h-4 w-4" />
+                          </Button>
+                          <span className="text-xs tabular-nums">{idx + 1} / {maxImages}</span>
+                          <Button size="icon" variant="outline" onClick={() => setIdx(Math.min(maxImages - 1, idx + 1))} disabled={idx >= maxImages - 1} aria-label="Следующие скриншоты">
+                            <ChevronRight className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    {picked.map((c, i) => {
+                      const cell = getCell(c.id, k.id);
+                      const differs = i > 0 && sim[c.id] < NEAR_IDENTICAL;
+                      const img = cell?.images?.[idx];
+                      return (
+                        <div
+                          key={c.id}
+                          className={"border-t px-2 py-2 text-sm flex flex-col gap-2 " + (same || (i > 0 && !differs) ? "opacity-50 " : "") + (differs ? "bg-amber-50 border-l-4 border-l-amber-400" : "")}
+                        >
+                          {cell?.value && <ValueView value={cell.value} />}
+                          {differs && base ? (
+                            <TextDiff before={getCell(base.id, k.id)?.text || ""} after={cell?.text || ""} />
+                          ) : cell?.text ? (
+                            <Markdown text={cell.text} />
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                          {/* полоса скриншотов одной высоты и прижата книзу — в строке кадры стоят на одном уровне */}
+                          {maxImages > 0 && (
+                            <div className="mt-auto h-48 flex flex-col gap-1">
+                              <div className="flex-1 min-h-0 flex items-center justify-center rounded border bg-black/5 cursor-pointer" onClick={() => onOpen(c.id, k.id)}>
+                                {img ? (
+                                  <AnnotatedImg key={img.url} image={img} className="h-full w-full" />
+                                ) : (
+                                  <span className="text-xs text-muted-foreground">нет скриншота</span>
+                                )}
+                              </div>
+                              <div className="h-4 text-xs text-muted-foreground truncate" title={img?.caption}>{img?.caption}</div>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </React.Fragment>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
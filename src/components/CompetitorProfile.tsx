@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, ExternalLink, Loader2, AlertTriangle } from "lucide-react";
+import { dataSource, type Competitor, type Course, type Criterion, type MatrixData, type Tab } from "@/api";
+import { outbox } from "@/outbox";
+import { Img, normalizeImageUrl } from "@/components/Img";
+import { AnnotatedImg } from "@/components/Annotations";
+import { ValueView } from "@/components/CellValue";
+import { Markdown } from "@/components/Markdown";
+import { isEmptyCell } from "@/search";
+import { COURSE_CRIT_ID, groupCriteria } from "@/matrixOps";
+
+type ProfileSection = {
+  tab: Tab;
+  course: Course;
+  meta?: string;
+  groups: { name: string; rows: { criterion: Criterion; cell: MatrixData["cells"][number] }[] }[];
+  total: number; // сколько критериев на вкладке — для «заполнено N из M»
+};
+
+function buildSection(tab: Tab, course: Course, m: MatrixData): ProfileSection {
+  const cellOf = (criterionId: string) => m.cells.find((c) => c.courseId === course.id && c.criterionId === criterionId);
+  const grouped = Object.entries(groupCriteria(m));
+  return {
+    tab,
+    course,
+    meta: cellOf(COURSE_CRIT_ID)?.text?.trim() || undefined,
+    // в профиле только заполненное — пустые строки одного конкурента ничего не говорят
+    groups: grouped
+      .map(([name, criteria]) => ({ name, rows: criteria.flatMap((criterion) => { const cell = cellOf(criterion.id); return cell && !isEmptyCell(cell) ? [{ criterion, cell }] : []; }) }))
+      .filter((g) => g.rows.length > 0),
+    total: grouped.reduce((n, [, criteria]) => n + criteria.length, 0),
+  };
+}
+
+// Профиль конкурента: его курсы со всех вкладок одной лентой — по вкладкам, внутри по группам критериев
+export function CompetitorProfile({ competitor, tabs, onRename, onOpenTab, onClose }: {
+  competitor: Competitor;
+  tabs: Tab[];
+  onRename?: (name: string) => void; // нет — только просмотр
+  onOpenTab: (tabId: string) => void;
+  onClose: () => void;
+}) {
+  const [sections, setSections] = useState<ProfileSection[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [name, setName] = useState(competitor.name);
+  useEffect(() => { setName(competitor.name); }, [competitor.name]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSections(null);
+    setErrors([]);
+    (async () => {
+      // вкладки грузим параллельно; упавшая не мешает показать остальные
+      const results = await Promise.allSettled(tabs.map(async (tab) => {
+        const m = await outbox.applyPending(tab.sheet, await dataSource.loadMatrix(tab.sheet));
+        return m.courses.filter((c) => c.competitorId === competitor.id).map((c) => buildSection(tab, c, m));
+      }));
+      if (cancelled) return;
+      setSections(results.flatMap((r) => (r.status === "fulfilled" ? r.value : [])));
+      setErrors(results.flatMap((r, i) => (r.status === "rejected" ? [`${tabs[i].label}: ${r.reason?.message || String(r.reason)}`] : [])));
+    })();
+    return () => { cancelled = true; };
+  }, [competitor.id, tabs]);
+
+  const commitName = () => {
+    const next = name.trim();
+    if (next && next !== competitor.name && onRename) onRename(next);
+    else setName(competitor.name);
+  };
+
+  return (
+    <div className="p-4 flex flex-col gap-4 max-w-5xl mx-auto">
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={onClose}><ArrowLeft className="h-4 w-4 mr-1" /> К матрице</Button>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          readOnly={!onRename}
+          onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+          className="flex-1 min-w-0 text-xl font-semibold border-b border-transparent hover:border-gray-300 focus:border-gray-500 outline-none px-1"
+          aria-label="Название конкурента"
+        />
+        {competitor.url && (
+          <a href={competitor.url} target="_blank" rel="noreferrer" className="text-sm text-blue-700 hover:underline inline-flex items-center gap-1">
+            Сайт <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+
+      {errors.map((e) => (
+        <div key={e} className="text-sm text-red-700 inline-flex items-center gap-1"><AlertTriangle className="h-4 w-4" /> {e}</div>
+      ))}
+
+      {!sections ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Собираем данные со всех вкладок…</div>
+      ) : sections.length === 0 ? (
+        <div className="text-sm text-muted-foreground">Ни один курс ещё не связан с этим конкурентом. Связать курс можно в его карточке.</div>
+      ) : (
+        sections.map((s) => {
+          const filled = s.groups.reduce((n, g) => n + g.rows.length, 0);
+          return (
+            <section key={`${s.tab.id}:${s.course.id}`} className="border rounded-lg">
+              <div className="sticky top-0 z-10 bg-white border-b rounded-t-lg px-3 py-2 flex items-center gap-2">
+                {s.course.logo && <Img url={s.course.logo} alt="" className="h-6 w-6 object-contain rounded" />}
+                <div className="min-w-0 flex-1">
+                  <div className="font-semibold truncate">{s.tab.label} · {s.course.name}</div>
+                  {s.course.provider && <div className="text-xs text-muted-foreground truncate">{s.course.provider}</div>}
+                </div>
+                <span className="text-xs text-muted-foreground">заполнено {filled} из {s.total}</span>
+                <Button size="sm" variant="ghost" onClick={() => onOpenTab(s.tab.id)}>Открыть вкладку</Button>
+              </div>
+              {s.meta && <div className="px-3 py-2 text-sm whitespace-pre-wrap border-b">{s.meta}</div>}
+              {s.groups.map((g) => (
+                <div key={g.name}>
+                  <div className="bg-gray-100 px-3 py-1.5 text-sm font-semibold">{g.name}</div>
+                  {g.rows.map(({ criterion, cell }) => (
+                    <div key={criterion.id} className="grid grid-cols-[220px_1fr] gap-3 px-3 py-2 border-t text-sm">
+                      <div className="font-medium">{criterion.name}</div>
+                      <div className="flex flex-col gap-2 min-w-0">
+                        {cell.value && <ValueView value={cell.value} />}
+                        {cell.text && <Markdown text={cell.text} />}
+                        {cell.images && cell.images.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {cell.images.map((img) => (
+                              <a key={img.url} href={normalizeImageUrl(img.url)} target="_blank" rel="noreferrer" className="max-w-[220px]">
+                                <AnnotatedImg image={img} fit="none" className="rounded border" imgClassName="h-28 max-w-[220px] object-contain" />
+                                {img.caption && <div className="text-xs text-muted-foreground truncate" title={img.caption}>{img.caption}</div>}
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </section>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import type { Cell, CellImage } from "@/api";
+import { toCellImage } from "@/matrixOps";
+import { ImageListEditor } from "@/components/ImageListEditor";
+
+// Черновик слияния: их версия целиком + наши строки и картинки, которых у них нет
+export function mergeCellDrafts(theirs: Pick<Cell, "text" | "images">, mine: Pick<Cell, "text" | "images">) {
+  const theirLines = (theirs.text || "").split(/\r?\n/);
+  const extra = (mine.text || "").split(/\r?\n/).filter((l) => l.trim() && !theirLines.includes(l));
+  const text = [theirs.text || "", ...extra].filter(Boolean).join("\n");
+  // картинки сводим по ссылке; у совпавших остаются их подпись и пометки
+  const images = [...(theirs.images || []), ...(mine.images || [])].map(toCellImage)
+    .filter((img, i, all) => all.findIndex((x) => x.url === img.url) === i);
+  return { text, images };
+}
+
+function formatVersion(c: Cell) {
+  const who = c.updatedBy || "кто-то";
+  const when = c.updatedAt ? new Date(c.updatedAt).toLocaleString("ru-RU") : "";
+  return when ? `${who}, ${when}` : who;
+}
+
+function VersionBox({ title, cell }: { title: string; cell: Pick<Cell, "text" | "images"> }) {
+  return (
+    <div className="flex-1 min-w-0 border rounded-md p-2 bg-gray-50">
+      <div className="text-xs font-medium mb-1">{title}</div>
+      <div className="text-sm whitespace-pre-wrap break-words">{cell.text || "—"}</div>
+      {(cell.images || []).length > 0 && (
+        <ul className="mt-2 text-[11px] text-muted-foreground list-disc pl-4 break-all">
+          {(cell.images || []).map(toCellImage).map((img) => <li key={img.url}>{img.caption ? `${img.caption}: ` : ""}{img.url}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Конфликт записи: их версия, моя версия и редактируемый объединённый черновик
+export function ConflictView({ theirs, mine, draftText, onDraftText, draftImages, onDraftImages, upload, onBusyChange }: {
+  theirs: Cell;
+  mine: Pick<Cell, "text" | "images">;
+  draftText: string;
+  onDraftText: (v: string) => void;
+  draftImages: CellImage[];
+  onDraftImages: React.Dispatch<React.SetStateAction<CellImage[]>>;
+  upload: (file: Blob, name: string) => Promise<string>;
+  onBusyChange?: (busy: boolean) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+        Пока вы редактировали, ячейку изменили: {formatVersion(theirs)}. Сведите версии и сохраните объединённый вариант.
+      </div>
+      <div className="flex gap-2">
+        <VersionBox title="Их версия" cell={theirs} />
+        <VersionBox title="Моя версия" cell={mine} />
+      </div>
+      <Label>Объединённый черновик</Label>
+      <textarea value={draftText} onChange={(e) => onDraftText(e.target.value)} className="border rounded-md p-2 text-sm min-h-[120px]" />
+      <Label className="block">Скриншоты</Label>
+      <ImageListEditor value={draftImages} onChange={onDraftImages} upload={upload} onBusyChange={onBusyChange} />
+    </div>
+  );
+}
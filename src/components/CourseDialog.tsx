@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Archive, ArchiveRestore, Trash2 } from "lucide-react";
+import type { Competitor, Course } from "@/api";
+
+const FIELDS: { key: "name" | "provider" | "url" | "logo"; label: string; placeholder?: string }[] = [
+  { key: "name", label: "Название" },
+  { key: "provider", label: "Школа / компания" },
+  { key: "url", label: "Ссылка на курс", placeholder: "https://…" },
+  { key: "logo", label: "Логотип (ссылка на картинку)", placeholder: "https://…" },
+];
+
+const NEW_COMPETITOR = "__new__";
+
+// Карточка курса: название, школа, ссылки, привязка к конкуренту; архив и удаление
+export function CourseDialog({ course, competitors, onClose, onSave, onArchive, onDelete }: {
+  course: Course | null;
+  competitors: Competitor[];
+  onClose: () => void;
+  onSave: (course: Course, newCompetitor?: Competitor) => void; // newCompetitor — заведён здесь, его ещё нет на бэкенде
+  onArchive: (course: Course, archived: boolean, newCompetitor?: Competitor) => void; // вместе с правками из карточки
+  onDelete: (course: Course) => void;
+}) {
+  const [draft, setDraft] = useState<Course | null>(course);
+  // новый конкурент живёт в черновике: отменили карточку — его и не было
+  const [created, setCreated] = useState<Competitor | null>(null);
+  useEffect(() => { setDraft(course); setCreated(null); }, [course]);
+
+  // то, что сохраняем: и по «Сохранить», и при отправке в архив — правки карточки не теряются
+  const result = (c: Course, d: Course): [Course, Competitor | undefined] =>
+    [{ ...d, name: d.name.trim() || c.name }, created && d.competitorId === created.id ? created : undefined];
+
+  return (
+    <Dialog open={!!course} onOpenChange={onClose}>
+      <DialogContent className="max-w-md w-[min(96vw,28rem)]">
+        {course && draft && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Курс {course.id}</DialogTitle>
+            </DialogHeader>
+            <div className="flex flex-col gap-3">
+              {FIELDS.map((f) => (
+                <div key={f.key}>
+                  <Label className="block mb-1" htmlFor={`course-${f.key}`}>{f.label}</Label>
+                  <input
+                    id={`course-${f.key}`}
+                    value={draft[f.key] || ""}
+                    placeholder={f.placeholder}
+                    onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })}
+                    className="w-full border rounded-md px-2 py-1 text-sm"
+                  />
+                </div>
+              ))}
+              <div>
+                <Label className="block mb-1" htmlFor="course-competitor">Конкурент</Label>
+                <select
+                  id="course-competitor"
+                  value={draft.competitorId || ""}
+                  onChange={(e) => {
+                    const v = e.target.value;
+                    let id = v;
+                    if (v === NEW_COMPETITOR) {
+                      // новый конкурент получает имя школы, а если её нет — курса
+                      const competitor = created ?? { id: `cp-${Date.now()}`, name: draft.provider?.trim() || draft.name.trim() || course.name };
+                      setCreated(competitor);
+                      id = competitor.id;
+                    }
+                    setDraft({ ...draft, competitorId: id || undefined });
+                  }}
+                  className="w-full border rounded-md px-2 py-1 text-sm bg-white"
+                >
+                  <option value="">— не связан —</option>
+                  {competitors.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  {created && <option value={created.id}>{created.name} (новый)</option>}
+                  <option value={NEW_COMPETITOR}>Новый конкурент…</option>
+                </select>
+                <div className="text-xs text-muted-foreground mt-1">Один конкурент на разных вкладках — его профиль собирает все ячейки вместе.</div>
+              </div>
+            </div>
+            <DialogFooter className="pt-2 justify-between">
+              <div className="flex gap-2 mr-auto">
+                <Button variant="outline" size="sm" onClick={() => { const [saved, competitor] = result(course, draft); onArchive(saved, !course.archived, competitor); }}>
+                  {course.archived ? <><ArchiveRestore className="h-4 w-4 mr-1" /> Вернуть</> : <><Archive className="h-4 w-4 mr-1" /> В архив</>}
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => { if (window.confirm("Удалить курс вместе со всеми его ячейками? Это необратимо.")) onDelete(course); }}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" /> Удалить
+                </Button>
+              </div>
+              <Button size="sm" onClick={() => onSave(...result(course, draft))}>Сохранить</Button>
+              <Button size="sm" variant="outline" onClick={onClose}>Отмена</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import type { Criterion, ValueType } from "@/api";
+import { VALUE_TYPE_LABELS, valueTypeOf } from "@/values";
+import { scoreDirectionOf } from "@/scoring";
+
+const NEW_GROUP = "__new__";
+
+// Создание и правка критерия: название, описание, кто заполняет, тип значения, группа (в т.ч. новая)
+export function CriterionDialog({ criterion, isNew, groups, onClose, onSave }: {
+  criterion: Criterion | null;
+  isNew: boolean;
+  groups: string[];
+  onClose: () => void;
+  onSave: (criterion: Criterion) => void;
+}) {
+  const [draft, setDraft] = useState<Criterion | null>(criterion);
+  const [newGroup, setNewGroup] = useState<string | null>(null);
+  const [optionsText, setOptionsText] = useState("");
+  useEffect(() => { setDraft(criterion); setNewGroup(null); setOptionsText((criterion?.options || []).join("\n")); }, [criterion]);
+
+  const save = () => {
+    if (!draft || !draft.name.trim()) return;
+    const group = newGroup !== null ? newGroup.trim() : draft.group;
+    const type = valueTypeOf(draft);
+    const options = optionsText.split(/\r?\n/).map((o) => o.trim()).filter(Boolean);
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description?.trim() || undefined,
+      filledBy: draft.filledBy?.trim() || undefined,
+      filledByOnly: draft.filledBy?.trim() ? draft.filledByOnly : undefined,
+      group: group || undefined,
+      valueType: type === "text" ? undefined : type,
+      options: (type === "select" || type === "multiselect") && options.length ? Array.from(new Set(options)) : undefined,
+      unit: type === "number" ? draft.unit?.trim() || undefined : undefined,
+      currency: type === "money" ? draft.currency?.trim().toUpperCase() || undefined : undefined,
+      scoreDirection: type === "money" || type === "number" ? draft.scoreDirection : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={!!criterion} onOpenChange={onClose}>
+      <DialogContent className="max-w-md w-[min(96vw,28rem)]">
+        {draft && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{isNew ? "Новый критерий" : "Критерий"}</DialogTitle>
+            </DialogHeader>
+            <div className="flex flex-col gap-3">
+              <div>
+                <Label className="block mb-1" htmlFor="crit-name">Название</Label>
+                <input id="crit-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="w-full border rounded-md px-2 py-1 text-sm" />
+              </div>
+              <div>
+                <Label className="block mb-1" htmlFor="crit-description">Описание</Label>
+                <textarea id="crit-description" value={draft.description || ""} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className="w-full border rounded-md p-2 text-sm min-h-[80px]" />
+              </div>
+              <div>
+                <Label className="block mb-1" htmlFor="crit-filled-by">Заполняет</Label>
+                <input id="crit-filled-by" value={draft.filledBy || ""} onChange={(e) => setDraft({ ...draft, filledBy: e.target.value })} className="w-full border rounded-md px-2 py-1 text-sm" />
+                <label className="flex items-center gap-2 text-sm mt-1">
+                  <input type="checkbox" checked={!!draft.filledByOnly} disabled={!draft.filledBy?.trim()} onChange={(e) => setDraft({ ...draft, filledByOnly: e.target.checked || undefined })} />
+                  Править может только эта команда
+                </label>
+              </div>
+              <div>
+                <Label className="block mb-1" htmlFor="crit-type">Тип значения</Label>
+                <select
+                  id="crit-type"
+                  value={valueTypeOf(draft)}
+                  onChange={(e) => setDraft({ ...draft, valueType: e.target.value as ValueType })}
+                  className="w-full border rounded-md px-2 py-1 text-sm"
+                >
+                  {(Object.keys(VALUE_TYPE_LABELS) as ValueType[]).map((t) => <option key={t} value={t}>{VALUE_TYPE_LABELS[t]}</option>)}
+                </select>
+                {(draft.valueType === "select" || draft.valueType === "multiselect") && (
+                  <textarea placeholder="Варианты, по одному в строке" value={optionsText} onChange={(e) => setOptionsText(e.target.value)} className="w-full border rounded-md p-2 text-sm min-h-[80px] mt-2" />
+                )}
+                {draft.valueType === "number" && (
+                  <input placeholder="Единица: мес., ч, уроков…" value={draft.unit || ""} onChange={(e) => setDraft({ ...draft, unit: e.target.value })} className="w-full border rounded-md px-2 py-1 text-sm mt-2" />
+                )}
+                {draft.valueType === "money" && (
+                  <input placeholder="Валюта по умолчанию: RUB" maxLength={3} value={draft.currency || ""} onChange={(e) => setDraft({ ...draft, currency: e.target.value })} className="w-full border rounded-md px-2 py-1 text-sm mt-2 uppercase" />
+                )}
+                {(draft.valueType === "money" || draft.valueType === "number") && (
+                  <select
+                    aria-label="Что лучше при подсчёте баллов"
+                    value={scoreDirectionOf(draft)}
+                    onChange={(e) => setDraft({ ...draft, scoreDirection: e.target.value as "higher" | "lower" })}
+                    className="w-full border rounded-md px-2 py-1 text-sm mt-2"
+                  >
+                    <option value="higher">Для баллов: больше — лучше</option>
+                    <option value="lower">Для баллов: меньше — лучше</option>
+                  </select>
+                )}
+              </div>
+              <div>
+                <Label className="block mb-1" htmlFor="crit-group">Группа</Label>
+                <select
+                  id="crit-group"
+                  value={newGroup !== null ? NEW_GROUP : draft.group || ""}
+                  onChange={(e) => {
+                    if (e.target.value === NEW_GROUP) setNewGroup("");
+                    else { setNewGroup(null); setDraft({ ...draft, group: e.target.value }); }
+                  }}
+                  className="w-full border rounded-md px-2 py-1 text-sm"
+                >
+                  {groups.map((g) => <option key={g} value={g}>{g}</option>)}
+                  <option value={NEW_GROUP}>Новая группа…</option>
+                </select>
+                {newGroup !== null && (
+                  <input autoFocus placeholder="Название группы" value={newGroup} onChange={(e) => setNewGroup(e.target.value)} className="w-full border rounded-md px-2 py-1 text-sm mt-2" />
+                )}
+              </div>
+            </div>
+            <DialogFooter className="pt-2">
+              <Button size="sm" onClick={save} disabled={!draft.name.trim() || newGroup?.trim() === ""}>{isNew ? "Добавить" : "Сохранить"}</Button>
+              <Button size="sm" variant="outline" onClick={onClose}>Отмена</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
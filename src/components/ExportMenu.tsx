@@ -0,0 +1,47 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { EXPORT_LABELS, type ExportFormat } from "@/export";
+
+export type ExportScope = "view" | "all";
+
+// Кнопка «Экспорт» с выпадающим меню: что выгружать и в каком формате
+export function ExportMenu({ disabled, onExport }: { disabled?: boolean; onExport: (format: ExportFormat, scope: ExportScope) => void }) {
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<ExportScope>("view");
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setOpen((v) => !v)} disabled={disabled}>
+        <Download className="h-4 w-4 mr-1" /> Экспорт
+      </Button>
+      {open && (
+        <>
+          {/* клик мимо меню закрывает его */}
+          <div className="fixed inset-0 z-30" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-1 z-40 w-64 rounded-md border bg-white p-2 shadow-lg text-sm">
+            <label className="flex items-center gap-2 py-0.5">
+              <input type="radio" checked={scope === "view"} onChange={() => setScope("view")} />
+              Как на экране
+            </label>
+            <label className="flex items-center gap-2 py-0.5">
+              <input type="radio" checked={scope === "all"} onChange={() => setScope("all")} />
+              Всё, включая скрытое и свёрнутое
+            </label>
+            <div className="border-t my-2" />
+            {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map((f) => (
+              <button
+                key={f}
+                type="button"
+                className="block w-full text-left rounded px-2 py-1 hover:bg-gray-100"
+                onClick={() => { setOpen(false); onExport(f, scope); }}
+              >
+                {EXPORT_LABELS[f]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import React from "react";
+import { highlightParts } from "@/search";
+
+// Текст с подсвеченными вхождениями поискового запроса
+export function Highlight({ text, query }: { text: string; query?: string }) {
+  if (!query?.trim()) return <>{text}</>;
+  return (
+    <>
+      {highlightParts(text, query).map((p, i) => (p.hit ? <mark key={i} className="bg-yellow-200 rounded-sm">{p.text}</mark> : <React.Fragment key={i}>{p.text}</React.Fragment>))}
+    </>
+  );
+}
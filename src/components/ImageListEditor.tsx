@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, ArrowRight, ImagePlus, Loader2, PenLine, X } from "lucide-react";
+import type { CellImage } from "@/api";
+import { AnnotatedImg, AnnotationEditor } from "@/components/Annotations";
+import { isImageFile, prepareImage, uploadName } from "@/imageUpload";
+
+// Скриншоты ячейки: превью с подписью и пометками, перестановка и удаление, загрузка перетаскиванием, из буфера и по ссылке
+export function ImageListEditor({ value: list, onChange, upload, onBusyChange }: {
+  value: CellImage[];
+  onChange: React.Dispatch<React.SetStateAction<CellImage[]>>;
+  upload: (file: Blob, name: string) => Promise<string>;
+  onBusyChange?: (busy: boolean) => void;
+}) {
+  const [uploading, setUploading] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [dragOver, setDragOver] = useState(false);
+  const [link, setLink] = useState("");
+  const [annotating, setAnnotating] = useState<number | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const uploadRef = useRef(upload); // обработчик вставки вешается один раз — берём свежую функцию отсюда
+  uploadRef.current = upload;
+
+  // загрузки принадлежат этому редактору: закрыли диалог — поздние ответы никуда не добавляем,
+  // иначе ссылки попали бы в черновик следующей открытой ячейки
+  const alive = useRef(true);
+  useEffect(() => { onBusyChange?.(uploading > 0); }, [uploading > 0]);
+  useEffect(() => {
+    alive.current = true;
+    return () => { alive.current = false; onBusyChange?.(false); };
+  }, []);
+
+  async function addFiles(files: File[]) {
+    const images = files.filter(isImageFile);
+    const skipped = files.filter((f) => !isImageFile(f)).map((f) => `${f.name}: это не картинка`);
+    if (skipped.length) setErrors((prev) => [...prev, ...skipped]);
+    setUploading((n) => n + images.length);
+    // грузим по очереди: порядок скриншотов — порядок файлов
+    for (const f of images) {
+      try {
+        const url = await uploadRef.current(await prepareImage(f), uploadName(f));
+        if (!alive.current) return; // остальные файлы тоже не грузим
+        onChange((prev) => [...prev, { url }]);
+      } catch (e: any) {
+        if (!alive.current) return;
+        setErrors((prev) => [...prev, `${uploadName(f)}: ${e?.message || String(e)}`]);
+      } finally {
+        if (alive.current) setUploading((n) => n - 1);
+      }
+    }
+  }
+
+  // Ctrl+V со скриншотом работает в любом месте диалога, обычная вставка текста не затрагивается
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []).filter(isImageFile);
+      if (!files.length) return;
+      e.preventDefault();
+      void addFiles(files);
+    };
+    document.addEventListener("paste", onPaste);
+    return () => document.removeEventListener("paste", onPaste);
+  }, []);
+
+  const move = (i: number, delta: number) => {
+    const next = [...list];
+    [next[i], next[i + delta]] = [next[i + delta], next[i]];
+    onChange(next);
+  };
+
+  const patch = (i: number, changes: Partial<CellImage>) => onChange((prev) => prev.map((img, j) => (j === i ? { ...img, ...changes } : img)));
+
+  const addLink = () => {
+    const urls = link.split(/\s+/).filter(Boolean);
+    if (!urls.length) return;
+    onChange((prev) => [...prev, ...urls.map((url) => ({ url }))]);
+    setLink("");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {(list.length > 0 || uploading > 0) && (
+        <div className="flex flex-wrap gap-2">
+          {list.map((img, i) => (
+            <div key={`${i}:${img.url}`} className="relative w-36 rounded border bg-black/5 group">
+              <div title={img.url.startsWith("data:") ? "загружено без сервера" : img.url}>
+                <AnnotatedImg image={img} className="h-24 w-full" compact />
+              </div>
+              <input
+                value={img.caption || ""}
+                onChange={(e) => patch(i, { caption: e.target.value || undefined })}
+                placeholder="Подпись"
+                className="w-full border-t bg-white px-1 py-0.5 text-xs outline-none"
+              />
+              <div className="flex items-center justify-between px-1 py-0.5 text-xs">
+                <Button size="icon" variant="ghost" className="h-6 w-6" disabled={i === 0} onClick={() => move(i, -1)} aria-label="Раньше">
+                  <ArrowLeft className="h-3 w-3" />
+                </Button>
+                <Button size="sm" variant="ghost" className="h-6 px-1 text-xs" onClick={() => setAnnotating(i)} title="Пометки на скриншоте">
+                  <PenLine className="h-3 w-3 mr-0.5" />{img.annotations?.length || ""}
+                </Button>
+                <Button size="icon" variant="ghost" className="h-6 w-6" disabled={i === list.length - 1} onClick={() => move(i, 1)} aria-label="Позже">
+                  <ArrowRight className="h-3 w-3" />
+                </Button>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(list.filter((_, j) => j !== i))}
+                className="absolute top-1 right-1 rounded-full bg-white/90 border p-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label="Убрать скриншот"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+          {Array.from({ length: uploading }, (_, i) => (
+            <div key={`up-${i}`} className="w-36 h-[9rem] rounded border border-dashed flex items-center justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => { e.preventDefault(); setDragOver(false); void addFiles(Array.from(e.dataTransfer.files)); }}
+        onClick={() => fileInput.current?.click()}
+        className={"rounded-md border-2 border-dashed px-3 py-4 text-sm text-center cursor-pointer " + (dragOver ? "border-blue-500 bg-blue-50" : "text-muted-foreground hover:bg-gray-50")}
+      >
+        <ImagePlus className="inline h-4 w-4 mr-1" />
+        Перетащите скриншоты сюда, вставьте из буфера (Ctrl+V) или нажмите, чтобы выбрать файлы
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => { void addFiles(Array.from(e.target.files || [])); e.target.value = ""; }}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); addLink(); } }}
+          placeholder="…или ссылка на картинку (в том числе Google Drive)"
+          className="flex-1 border rounded-md px-2 py-1 text-sm"
+        />
+        <Button size="sm" variant="outline" onClick={addLink} disabled={!link.trim()}>Добавить</Button>
+      </div>
+
+      <AnnotationEditor
+        image={annotating !== null ? list[annotating] ?? null : null}
+        onSave={(annotations) => { if (annotating !== null) patch(annotating, { annotations: annotations.length ? annotations : undefined }); setAnnotating(null); }}
+        onClose={() => setAnnotating(null)}
+      />
+
+      {errors.length > 0 && (
+        <div className="text-xs text-red-700 flex items-start gap-2">
+          <div className="flex-1">{errors.map((e, i) => <div key={i}>Не загружено: {e}</div>)}</div>
+          <button type="button" className="underline" onClick={() => setErrors([])}>скрыть</button>
+        </div>
+      )}
+    </div>
+  );
+}
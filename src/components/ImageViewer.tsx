@@ -0,0 +1,208 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Maximize, Minimize, ZoomIn, ZoomOut } from "lucide-react";
+import type { CellImage } from "@/api";
+import { AnnotatedImg } from "@/components/Annotations";
+
+export type ViewerItem = { image: CellImage; label?: string }; // label — курс в режиме галереи
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const clampZoom = (z: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z));
+
+type View = { zoom: number; x: number; y: number }; // сдвиг в пикселях сцены, масштаб от центра
+const FIT: View = { zoom: 1, x: 0, y: 0 };
+
+export type ImageViewerHandle = {
+  escape: () => boolean; // Esc из окна: сбросить масштаб; true — обработано, окно не закрывать
+};
+
+// Просмотрщик скриншотов: колесо/щипок — масштаб, перетаскивание — сдвиг, стрелки — соседние кадры,
+// Esc (через onEscapeKeyDown окна) — сначала сброс масштаба, потом закрытие; лента миниатюр снизу
+export const ImageViewer = forwardRef<ImageViewerHandle, {
+  items: ViewerItem[];
+  index: number;
+  onIndex: (i: number) => void;
+}>(function ImageViewer({ items, index, onIndex }, ref) {
+  const [view, setView] = useState<View>(FIT);
+  const [fullscreen, setFullscreen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ dist: number; zoom: number } | null>(null);
+
+  const i = Math.min(Math.max(0, index), items.length - 1);
+  const current = items[i];
+  const go = (next: number) => { if (next >= 0 && next < items.length) onIndex(next); };
+
+  useEffect(() => { setView(FIT); }, [i, current?.image.url]);
+
+  // масштаб вокруг точки (px от центра сцены): точка под курсором остаётся на месте
+  const zoomAt = (factor: number, px = 0, py = 0) =>
+    setView((v) => {
+      const zoom = clampZoom(v.zoom * factor);
+      if (zoom === MIN_ZOOM) return FIT;
+      const k = zoom / v.zoom;
+      return { zoom, x: px - (px - v.x) * k, y: py - (py - v.y) * k };
+    });
+
+  const fromCenter = (clientX: number, clientY: number) => {
+    const r = stageRef.current!.getBoundingClientRect();
+    return { px: clientX - r.left - r.width / 2, py: clientY - r.top - r.height / 2 };
+  };
+
+  // React вешает wheel пассивным — preventDefault работает только на нативном обработчике
+  useEffect(() => {
+    const el = stageRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { px, py } = fromCenter(e.clientX, e.clientY);
+      zoomAt(Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015)), px, py); // ctrlKey — щипок на тачпаде
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement)?.closest?.("input, textarea, select")) return;
+      if (e.key === "ArrowLeft") go(i - 1);
+      else if (e.key === "ArrowRight") go(i + 1);
+      else if (e.key === "+" || e.key === "=") zoomAt(1.25);
+      else if (e.key === "-") zoomAt(0.8);
+      else if (e.key === "0") setView(FIT);
+      else if (e.key === "f" || e.key === "F") toggleFullscreen();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  useImperativeHandle(ref, () => ({
+    escape: () => {
+      if (document.fullscreenElement) return true; // из полноэкранного режима браузер выходит сам
+      if (view.zoom <= MIN_ZOOM) return false;
+      setView(FIT);
+      return true;
+    },
+  }));
+
+  useEffect(() => {
+    const onChange = () => setFullscreen(document.fullscreenElement === rootRef.current);
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, []);
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) void document.exitFullscreen();
+    else void rootRef.current?.requestFullscreen?.();
+  }
+
+  useEffect(() => {
+    stripRef.current?.querySelector(`[data-index="${i}"]`)?.scrollIntoView({ block: "nearest", inline: "center" });
+  }, [i]);
+
+  // кнопки поверх сцены — обычные кнопки: с захватом указателя их pointerup уходил бы сцене и клик терялся
+  const onControl = (e: React.SyntheticEvent) => !!(e.target as HTMLElement).closest("button");
+
+  function onPointerDown(e: React.PointerEvent) {
+    if (onControl(e)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) {
+      const [a, b] = Array.from(pointers.current.values());
+      pinch.current = { dist: Math.hypot(a.x - b.x, a.y - b.y), zoom: view.zoom };
+    }
+  }
+
+  function onPointerMove(e: React.PointerEvent) {
+    const prev = pointers.current.get(e.pointerId);
+    if (!prev) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2 && pinch.current) {
+      const [a, b] = Array.from(pointers.current.values());
+      const { px, py } = fromCenter((a.x + b.x) / 2, (a.y + b.y) / 2);
+      const target = clampZoom(pinch.current.zoom * Math.hypot(a.x - b.x, a.y - b.y) / pinch.current.dist);
+      zoomAt(target / view.zoom, px, py);
+    } else if (pointers.current.size === 1 && view.zoom > MIN_ZOOM) {
+      setView((v) => ({ ...v, x: v.x + e.clientX - prev.x, y: v.y + e.clientY - prev.y }));
+    }
+  }
+
+  function onPointerUp(e: React.PointerEvent) {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinch.current = null;
+  }
+
+  if (!current) return null;
+  const zoomed = view.zoom > MIN_ZOOM;
+
+  return (
+    <div ref={rootRef} className={"flex flex-col gap-2 " + (fullscreen ? "bg-black p-3 h-full" : "")}>
+      <div
+        ref={stageRef}
+        className={"relative overflow-hidden rounded border bg-black/5 flex items-center justify-center select-none touch-none " + (fullscreen ? "flex-1 min-h-0 border-transparent" : "h-[62vh]") + (zoomed ? " cursor-grab active:cursor-grabbing" : "")}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={(e) => { if (onControl(e)) return; if (zoomed) setView(FIT); else { const { px, py } = fromCenter(e.clientX, e.clientY); zoomAt(2.5, px, py); } }}
+      >
+        <div
+          className="max-h-full max-w-full flex items-center justify-center"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`, transition: pointers.current.size ? "none" : "transform 80ms ease-out" }}
+        >
+          <AnnotatedImg key={current.image.url} image={current.image} fit="none" imgClassName={(fullscreen ? "max-h-[calc(100vh-9rem)]" : "max-h-[60vh]") + " max-w-full pointer-events-none"} />
+        </div>
+        {current.label && (
+          <div className="absolute top-2 left-2 rounded bg-black/70 px-2 py-1 text-sm text-white max-w-[70%] truncate">{current.label}</div>
+        )}
+        <div className="absolute top-2 right-2 flex gap-1">
+          <Button size="icon" variant="outline" className="bg-white/90" onClick={() => zoomAt(0.8)} disabled={!zoomed} aria-label="Уменьшить"><ZoomOut className="h-4 w-4" /></Button>
+          <Button size="icon" variant="outline" className="bg-white/90" onClick={() => zoomAt(1.25)} disabled={view.zoom >= MAX_ZOOM} aria-label="Увеличить"><ZoomIn className="h-4 w-4" /></Button>
+          <Button size="icon" variant="outline" className="bg-white/90" onClick={toggleFullscreen} aria-label={fullscreen ? "Выйти из полноэкранного режима" : "Во весь экран"}>
+            {fullscreen ? <Minimize className="h-4 w-4" /> : <Maximize className="h-4 w-4" />}
+          </Button>
+        </div>
+        {items.length > 1 && (
+          <>
+            <Button size="icon" variant="outline" className="absolute left-2 top-1/2 -translate-y-1/2 bg-white/90" onClick={() => go(i - 1)} disabled={i <= 0} aria-label="Предыдущее изображение">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="outline" className="absolute right-2 top-1/2 -translate-y-1/2 bg-white/90" onClick={() => go(i + 1)} disabled={i >= items.length - 1} aria-label="Следующее изображение">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className={"flex items-center gap-3 text-xs " + (fullscreen ? "text-white" : "")}>
+        <span className="tabular-nums whitespace-nowrap">{i + 1} / {items.length}</span>
+        {zoomed && <span className="tabular-nums">{Math.round(view.zoom * 100)}%</span>}
+        <span className="flex-1 truncate text-sm" title={current.image.caption}>{current.image.caption}</span>
+        <a href={current.image.url} target="_blank" rel="noreferrer" className="underline text-blue-600 hover:text-blue-800 whitespace-nowrap">Открыть оригинал</a>
+      </div>
+
+      {items.length > 1 && (
+        <div ref={stripRef} className="flex gap-2 overflow-x-auto pb-1">
+          {items.map((it, j) => (
+            <button
+              key={`${j}:${it.image.url}`}
+              data-index={j}
+              type="button"
+              onClick={() => go(j)}
+              title={[it.label, it.image.caption].filter(Boolean).join(" — ")}
+              className={"shrink-0 rounded border-2 " + (j === i ? "border-blue-500" : "border-transparent opacity-70 hover:opacity-100")}
+            >
+              <AnnotatedImg image={it.image} className="h-14 w-20 rounded bg-black/5" compact />
+              {it.label && <div className={"w-20 truncate text-[10px] " + (fullscreen ? "text-white" : "")}>{it.label}</div>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,42 @@
+import React from "react";
+
+// Нормализуем ссылки: прямые URL оставляем как есть,
+// Google Drive вида /file/d/.. или ?id=.. превращаем в прямой CDN превью.
+export function normalizeImageUrl(u: string): string {
+  try {
+    const url = new URL(u);
+    if (url.hostname.includes("drive.google.com")) {
+      // извлечь id из /file/d/<id>/... или из ?id=<id>
+      const byPath = url.pathname.split("/d/")[1]?.split("/")[0];
+      const byQuery = url.searchParams.get("id");
+      const id = byPath || byQuery || "";
+      // максимально «крупный» превью CDN Google
+      return id ? `https://lh3.googleusercontent.com/d/${id}=s2048` : u;
+    }
+    return u;
+  } catch {
+    return u;
+  }
+}
+
+// lazy — грузим, только когда картинка подъехала к видимой области (в т.ч. внутри прокручиваемого блока,
+// где loading="lazy" браузера срабатывает слишком рано); до того — пустая заглушка того же размера
+export function Img({ url, alt, className, lazy, onLoad }: { url: string; alt?: string; className?: string; lazy?: boolean; onLoad?: React.ReactEventHandler<HTMLImageElement> }) {
+  const [ok, setOk] = React.useState(true);
+  const [near, setNear] = React.useState(!lazy || typeof IntersectionObserver === "undefined");
+  const placeholderRef = React.useRef<HTMLSpanElement>(null);
+  React.useEffect(() => {
+    const el = placeholderRef.current;
+    if (near || !el) return;
+    const io = new IntersectionObserver((entries) => { if (entries.some((e) => e.isIntersecting)) setNear(true); }, { rootMargin: "200px" });
+    io.observe(el);
+    return () => io.disconnect();
+  }, [near]);
+  const src = normalizeImageUrl(url);
+  if (!near) return <span ref={placeholderRef} className={"block bg-gray-100 " + (className || "")} />;
+  return ok ? (
+    <img src={src} alt={alt || "image"} className={className || "max-w-full max-h-64 rounded border"} loading="lazy" decoding="async" onLoad={onLoad} onError={() => setOk(false)} />
+  ) : (
+    <a href={url} target="_blank" rel="noreferrer" className="inline-flex items-center justify-center rounded border px-2 py-1 text-[11px] leading-4 bg-red-50 text-red-700 hover:bg-red-100">⚠︎ Открыть оригинал</a>
+  );
+}
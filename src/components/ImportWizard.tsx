@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import type { Criterion } from "@/api";
+import { formatValue } from "@/values";
+import {
+  guessKeyColumns, isSameCell, matchByName, mergeImported, parseImportedCell, readSpreadsheet,
+  type ImportChange, type ImportSheet, type ImportedCell,
+} from "@/import";
+
+type Step = "file" | "map" | "preview";
+const ALL_SHEETS = -1;
+
+const selectCls = "border rounded-md px-2 py-1 text-sm w-full";
+
+function CellSummary({ cell }: { cell?: { text?: string; images: string[]; value?: ImportedCell["value"] } }) {
+  if (!cell || (!cell.text && !cell.images.length && !cell.value)) return <span className="text-muted-foreground">—</span>;
+  return (
+    <div className="whitespace-pre-wrap break-words">
+      {cell.value && <div className="font-medium">{formatValue(cell.value)}</div>}
+      {cell.text && <div className="line-clamp-4">{cell.text}</div>}
+      {cell.images.length > 0 && <div className="text-xs text-muted-foreground">скриншотов: {cell.images.length}</div>}
+    </div>
+  );
+}
+
+// Мастер импорта: файл → сопоставление колонок с курсами и строк с критериями → предпросмотр → запись пачкой
+export function ImportWizard({ open, courses, criteria, getCell, onClose, onApply }: {
+  open: boolean;
+  courses: { id: string; name: string }[];
+  criteria: Criterion[];
+  getCell: (courseId: string, criterionId: string) => ImportChange["before"];
+  onClose: () => void;
+  onApply: (changes: ImportChange[]) => Promise<void>;
+}) {
+  const [step, setStep] = useState<Step>("file");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [sheets, setSheets] = useState<ImportSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [nameCol, setNameCol] = useState(0);
+  const [idCol, setIdCol] = useState(-1);
+  const [columnCourse, setColumnCourse] = useState<Record<number, string>>({});
+  const [rowCriterion, setRowCriterion] = useState<Record<number, string>>({});
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("file"); setError(null); setSheets([]); setSheetIndex(0); setSkipped(new Set());
+  }, [open]);
+
+  // первая строка листа — заголовок; при «все листы» заголовок берём с первого, с остальных отбрасываем
+  const { header, rows } = useMemo(() => {
+    const picked = sheetIndex === ALL_SHEETS ? sheets : sheets.slice(sheetIndex, sheetIndex + 1);
+    return { header: picked[0]?.rows[0] || [], rows: picked.flatMap((s) => s.rows.slice(1)) };
+  }, [sheets, sheetIndex]);
+
+  // автосопоставление при смене листа или ключевых колонок; дальше пользователь правит руками
+  useEffect(() => {
+    if (!header.length) return;
+    setColumnCourse(Object.fromEntries(header.map((h, i) => {
+      if (i === nameCol || i === idCol) return [i, ""];
+      const course = courses.find((c) => c.id === h.trim()) ?? matchByName(h, courses, (c) => c.name);
+      return [i, course?.id || ""];
+    })));
+    setRowCriterion(Object.fromEntries(rows.map((r, i) => {
+      const byId = idCol >= 0 ? criteria.find((c) => c.id === (r[idCol] || "").trim()) : undefined;
+      return [i, (byId ?? matchByName(r[nameCol] || "", criteria, (c) => c.name))?.id || ""];
+    })));
+  }, [header, rows, nameCol, idCol]);
+
+  async function pickFile(file?: File) {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const parsed = (await readSpreadsheet(file)).filter((s) => s.rows.length > 1);
+      if (!parsed.length) throw new Error("В файле нет строк с данными");
+      const keys = guessKeyColumns(parsed[0].rows[0]);
+      setSheets(parsed);
+      setSheetIndex(0);
+      setNameCol(keys.nameCol);
+      setIdCol(keys.idCol);
+      setStep("map");
+    } catch (e: any) {
+      setError(e?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const changes = useMemo(() => {
+    if (step !== "preview") return { list: [] as ImportChange[], unchanged: 0 };
+    const byCell = new Map<string, ImportChange>();
+    let unchanged = 0;
+    rows.forEach((r, ri) => {
+      const criterionId = rowCriterion[ri];
+      const criterion = criteria.find((c) => c.id === criterionId);
+      if (!criterion) return;
+      header.forEach((_, ci) => {
+        const courseId = columnCourse[ci];
+        const raw = (r[ci] || "").trim();
+        if (!courseId || !raw) return;
+        const before = getCell(courseId, criterionId);
+        const after = mergeImported(before, parseImportedCell(criterion, raw));
+        if (isSameCell(before, after)) { unchanged++; return; }
+        const hasBefore = !!before && !isSameCell(before, { text: "", images: [] });
+        // одна и та же ячейка дважды в файле — побеждает последняя строка
+        byCell.set(`${courseId}|${criterionId}`, { courseId, criterionId, kind: hasBefore ? "overwrite" : "create", before, after });
+      });
+    });
+    return { list: Array.from(byCell.values()), unchanged };
+  }, [step, rows, header, rowCriterion, columnCourse, criteria, getCell]);
+
+  const keyOf = (c: ImportChange) => `${c.courseId}|${c.criterionId}`;
+  const selected = changes.list.filter((c) => !skipped.has(keyOf(c)));
+  const courseName = (id: string) => courses.find((c) => c.id === id)?.name || id;
+  const criterionName = (id: string) => criteria.find((c) => c.id === id)?.name || id;
+
+  async function apply() {
+    setBusy(true);
+    try {
+      await onApply(selected);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-5xl w-[min(96vw,1100px)] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Импорт из таблицы{step === "map" ? ": сопоставление" : step === "preview" ? ": предпросмотр" : ""}</DialogTitle>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="flex flex-col gap-3">
+            <div className="text-sm text-muted-foreground">
+              CSV или XLSX: первая строка — названия курсов, в одной из колонок — названия критериев (или <code>criterion_id</code>).
+              Подойдёт и файл, выгруженный через «Экспорт».
+            </div>
+            <input type="file" accept=".csv,.tsv,.txt,.xlsx" disabled={busy} onChange={(e) => pickFile(e.target.files?.[0])} />
+            {busy && <div className="text-sm text-muted-foreground inline-flex items-center gap-1"><Loader2 className="h-4 w-4 animate-spin" /> Читаю файл…</div>}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-3 gap-3">
+              {sheets.length > 1 && (
+                <div>
+                  <Label className="block mb-1">Лист</Label>
+                  <select value={sheetIndex} onChange={(e) => setSheetIndex(Number(e.target.value))} className={selectCls}>
+                    {sheets.map((s, i) => <option key={i} value={i}>{s.name}</option>)}
+                    <option value={ALL_SHEETS}>Все листы подряд</option>
+                  </select>
+                </div>
+              )}
+              <div>
+                <Label className="block mb-1">Колонка с критериями</Label>
+                <select value={nameCol} onChange={(e) => setNameCol(Number(e.target.value))} className={selectCls}>
+                  {header.map((h, i) => <option key={i} value={i}>{h || `Колонка ${i + 1}`}</option>)}
+                </select>
+              </div>
+              <div>
+                <Label className="block mb-1">Колонка criterion_id</Label>
+                <select value={idCol} onChange={(e) => setIdCol(Number(e.target.value))} className={selectCls}>
+                  <option value={-1}>— нет —</option>
+                  {header.map((h, i) => <option key={i} value={i}>{h || `Колонка ${i + 1}`}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <div className="font-medium text-sm mb-1">Колонки → курсы</div>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {header.map((h, i) => i === nameCol || i === idCol ? null : (
+                  <React.Fragment key={i}>
+                    <span className="text-sm truncate self-center" title={h}>{h || `Колонка ${i + 1}`}</span>
+                    <select value={columnCourse[i] || ""} onChange={(e) => setColumnCourse((prev) => ({ ...prev, [i]: e.target.value }))} className={selectCls}>
+                      <option value="">— не импортировать —</option>
+                      {courses.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="font-medium text-sm mb-1">Строки → критерии <span className="font-normal text-muted-foreground">(сопоставлено {Object.values(rowCriterion).filter(Boolean).length} из {rows.length})</span></div>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 max-h-[40vh] overflow-auto pr-1">
+                {rows.map((r, i) => (
+                  <React.Fragment key={i}>
+                    <span className={"text-sm truncate self-center " + (rowCriterion[i] ? "" : "text-muted-foreground")} title={r[nameCol]}>{r[nameCol] || `Строка ${i + 2}`}</span>
+                    <select value={rowCriterion[i] || ""} onChange={(e) => setRowCriterion((prev) => ({ ...prev, [i]: e.target.value }))} className={selectCls}>
+                      <option value="">— пропустить —</option>
+                      {criteria.map((c) => <option key={c.id} value={c.id}>{c.group ? `${c.group} / ` : ""}{c.name}</option>)}
+                    </select>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="flex flex-col gap-2">
+            <div className="text-sm">
+              Новых ячеек: <b>{changes.list.filter((c) => c.kind === "create").length}</b>,
+              {" "}перезаписать: <b className="text-orange-700">{changes.list.filter((c) => c.kind === "overwrite").length}</b>,
+              {" "}без изменений: {changes.unchanged}.
+              <span className="text-muted-foreground"> Текст и значение заменяются, скриншоты добавляются к имеющимся.</span>
+            </div>
+            {changes.list.length === 0 ? (
+              <div className="text-sm text-muted-foreground">Нечего импортировать — проверьте сопоставление.</div>
+            ) : (
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="p-1 w-8" />
+                    <th className="p-1">Курс</th>
+                    <th className="p-1">Критерий</th>
+                    <th className="p-1">Было</th>
+                    <th className="p-1">Станет</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.list.map((c) => (
+                    <tr key={keyOf(c)} className={"border-b align-top " + (c.kind === "overwrite" ? "bg-orange-50" : "bg-green-50")}>
+                      <td className="p-1">
+                        <input
+                          type="checkbox"
+                          checked={!skipped.has(keyOf(c))}
+                          onChange={() => setSkipped((prev) => { const next = new Set(prev); if (next.has(keyOf(c))) next.delete(keyOf(c)); else next.add(keyOf(c)); return next; })}
+                        />
+                      </td>
+                      <td className="p-1">{courseName(c.courseId)}</td>
+                      <td className="p-1">{criterionName(c.criterionId)}</td>
+                      <td className="p-1"><CellSummary cell={c.before} /></td>
+                      <td className="p-1"><CellSummary cell={c.after} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <DialogFooter className="pt-2">
+          {step === "map" && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setStep("file")}>Другой файл</Button>
+              <Button size="sm" onClick={() => { setSkipped(new Set()); setStep("preview"); }}>Дальше: предпросмотр</Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setStep("map")} disabled={busy}>Назад</Button>
+              <Button size="sm" onClick={apply} disabled={busy || selected.length === 0}>
+                {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />} Импортировать ({selected.length})
+              </Button>
+            </>
+          )}
+          <Button size="sm" variant="outline" onClick={onClose} disabled={busy}>Отмена</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import React, { useMemo } from "react";
+import { Highlight } from "@/components/Highlight";
+import { parseMarkdown, type MdBlock, type MdInline } from "@/markdown";
+
+function Inline({ nodes, query }: { nodes: MdInline[]; query?: string }) {
+  return (
+    <>
+      {nodes.map((n, i) => {
+        switch (n.type) {
+          case "text": return <Highlight key={i} text={n.text} query={query} />;
+          case "br": return <br key={i} />;
+          case "code": return <code key={i} className="rounded bg-gray-100 px-1 font-mono text-[0.85em]"><Highlight text={n.text} query={query} /></code>;
+          case "strong": return <strong key={i} className="font-semibold"><Inline nodes={n.children} query={query} /></strong>;
+          case "em": return <em key={i}><Inline nodes={n.children} query={query} /></em>;
+          case "link":
+            return (
+              // клик по ссылке в карточке не должен открывать саму ячейку
+              <a key={i} href={n.href} target="_blank" rel="noopener noreferrer nofollow" onClick={(e) => e.stopPropagation()} className="text-blue-600 underline break-all">
+                <Inline nodes={n.children} query={query} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Block({ block, query }: { block: MdBlock; query?: string }) {
+  switch (block.type) {
+    case "paragraph":
+      return <p className="my-1 first:mt-0 last:mb-0"><Inline nodes={block.children} query={query} /></p>;
+    case "heading": {
+      const Tag = `h${Math.min(block.level + 2, 6)}` as "h3"; // заголовки ячейки не спорят с заголовками страницы
+      return <Tag className={"font-semibold mt-2 mb-1 first:mt-0 " + (block.level === 1 ? "text-base" : "text-sm")}><Inline nodes={block.children} query={query} /></Tag>;
+    }
+    case "list": {
+      const items = block.items.map((item, i) => <li key={i}><Inline nodes={item} query={query} /></li>);
+      return block.ordered
+        ? <ol start={block.start} className="list-decimal pl-5 my-1 first:mt-0 last:mb-0">{items}</ol>
+        : <ul className="list-disc pl-5 my-1 first:mt-0 last:mb-0">{items}</ul>;
+    }
+    case "table":
+      return (
+        <div className="my-1 overflow-x-auto">
+          <table className="border-collapse text-xs">
+            <thead>
+              <tr>{block.head.map((c, j) => <th key={j} className="border bg-gray-50 px-1.5 py-0.5 font-semibold" style={{ textAlign: block.align[j] ?? "left" }}><Inline nodes={c} query={query} /></th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, i) => (
+                <tr key={i}>{row.map((c, j) => <td key={j} className="border px-1.5 py-0.5 align-top" style={{ textAlign: block.align[j] ?? "left" }}><Inline nodes={c} query={query} /></td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "code":
+      return <pre className="my-1 rounded bg-gray-100 p-2 text-xs font-mono whitespace-pre overflow-x-auto"><Highlight text={block.text} query={query} /></pre>;
+    case "quote":
+      return <blockquote className="my-1 border-l-2 pl-2 text-muted-foreground">{block.children.map((b, i) => <Block key={i} block={b} query={query} />)}</blockquote>;
+    case "hr":
+      return <hr className="my-2" />;
+  }
+}
+
+// Текст ячейки с Markdown: разметка превращается в React-элементы, сырой HTML не вставляется никогда
+export function Markdown({ text, highlight, className }: { text: string; highlight?: string; className?: string }) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className={"break-words " + (className || "")}>
+      {blocks.map((b, i) => <Block key={i} block={b} query={highlight} />)}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Edit3, X } from "lucide-react";
+import type { Cell, Criterion } from "@/api";
+import { DEFAULT_STALE_DAYS, NO_OWNER, computeProgress, percent, type CellRef, type Completion } from "@/progress";
+
+const LIST_LIMIT = 100; // длинные списки обрезаем — полный перечень даёт фильтр «Только с пустыми ячейками»
+const STALE_DAYS_KEY = "cmatrix_stale_days";
+
+const ownerLabel = (owner: string) => owner === NO_OWNER ? "Без команды" : owner;
+
+function Bar({ label, completion, title }: { label: string; completion: Completion; title?: string }) {
+  const p = percent(completion);
+  return (
+    <div className="flex items-center gap-2 text-sm" title={title || label}>
+      <span className="w-40 shrink-0 truncate">{label}</span>
+      <div className="flex-1 h-2 rounded bg-gray-100 overflow-hidden">
+        <div className={"h-full " + (p === 100 ? "bg-green-500" : p >= 50 ? "bg-blue-500" : "bg-amber-500")} style={{ width: `${p}%` }} />
+      </div>
+      <span className="w-24 shrink-0 text-right tabular-nums text-xs text-muted-foreground">{p}% · {completion.filled}/{completion.total}</span>
+    </div>
+  );
+}
+
+// Панель прогресса вкладки: сколько заполнено по курсам, группам и командам, что пусто или устарело и что ждёт мою команду
+export function ProgressView({ courses, groups, getCell, myTeams, canEditCell, onEdit, onOpen, onClose }: {
+  courses: { id: string; name: string }[];
+  groups: { name: string; criteria: Criterion[] }[];
+  getCell: (courseId: string, criterionId: string) => Cell | undefined;
+  myTeams: string[]; // команды текущего пользователя на этой вкладке
+  canEditCell: (criterionId: string) => boolean;
+  onEdit: (courseId: string, criterionId: string) => void;
+  onOpen: (courseId: string, criterionId: string) => void;
+  onClose: () => void;
+}) {
+  const [staleDays, setStaleDays] = useState(() => Number(localStorage.getItem(STALE_DAYS_KEY)) || DEFAULT_STALE_DAYS);
+  const [owner, setOwner] = useState<string | null>(null); // фильтр списков по команде; null — все
+
+  const report = useMemo(
+    () => computeProgress({ courseIds: courses.map((c) => c.id), groups, getCell, staleDays }),
+    [courses, groups, getCell, staleDays],
+  );
+  const courseName = useMemo(() => new Map(courses.map((c) => [c.id, c.name])), [courses]);
+  const criterionName = useMemo(() => new Map(groups.flatMap((g) => g.criteria.map((k) => [k.id, k.name] as const))), [groups]);
+
+  const teams = new Set(myTeams.map((t) => t.trim().toLowerCase()));
+  const mine = (r: CellRef) => r.owner !== NO_OWNER && teams.has(r.owner.toLowerCase());
+  const queue = [...report.empty, ...report.stale].filter((r) => mine(r) && canEditCell(r.criterionId));
+  const byOwner = (list: CellRef[]) => (owner === null ? list : list.filter((r) => r.owner === owner));
+
+  const changeStaleDays = (raw: string) => {
+    const days = Math.round(Number(raw));
+    if (!(days >= 1)) return;
+    setStaleDays(days);
+    localStorage.setItem(STALE_DAYS_KEY, String(days));
+  };
+
+  const cellList = (items: CellRef[], empty: string) => (
+    items.length === 0 ? <div className="text-xs text-muted-foreground">{empty}</div> : (
+      <div className="flex flex-col divide-y border rounded-md">
+        {items.slice(0, LIST_LIMIT).map((r) => {
+          const editable = canEditCell(r.criterionId);
+          return (
+            <div key={`${r.courseId}|${r.criterionId}`} className="flex items-center gap-2 px-2 py-1 text-sm">
+              <button type="button" className="flex-1 min-w-0 text-left truncate hover:underline" onClick={() => onOpen(r.courseId, r.criterionId)}>
+                <span className="font-medium">{courseName.get(r.courseId) || r.courseId}</span>
+                <span className="text-muted-foreground"> · {r.group} · </span>
+                {criterionName.get(r.criterionId) || r.criterionId}
+              </button>
+              {r.updatedAt && <span className="shrink-0 text-xs text-muted-foreground tabular-nums">{new Date(r.updatedAt).toLocaleDateString("ru-RU")}</span>}
+              <span className="shrink-0 w-28 truncate text-xs italic text-muted-foreground">{ownerLabel(r.owner)}</span>
+              {editable && (
+                <Button size="sm" variant="ghost" className="h-7 shrink-0" title="Заполнить" onClick={() => onEdit(r.courseId, r.criterionId)}>
+                  <Edit3 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+        {items.length > LIST_LIMIT && <div className="px-2 py-1 text-xs text-muted-foreground">…и ещё {items.length - LIST_LIMIT}</div>}
+      </div>
+    )
+  );
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-5">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-lg font-semibold tabular-nums">Заполнено {percent(report.overall)}%</span>
+        <span className="text-muted-foreground">{report.overall.filled} из {report.overall.total} ячеек</span>
+        <label className="inline-flex items-center gap-1 ml-4">
+          Устаревшие — без правок дольше
+          <input type="number" min={1} value={staleDays} onChange={(e) => changeStaleDays(e.target.value)} className="w-16 border rounded-md px-1 py-0.5" />
+          дн.
+        </label>
+        <Button size="sm" variant="ghost" className="ml-auto" onClick={onClose}><X className="h-4 w-4 mr-1" /> К матрице</Button>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <section className="flex flex-col gap-1.5">
+          <h2 className="font-semibold text-sm mb-1">По курсам</h2>
+          {courses.map((c) => <Bar key={c.id} label={c.name} completion={report.byCourse[c.id] ?? { filled: 0, total: 0 }} />)}
+        </section>
+        <section className="flex flex-col gap-1.5">
+          <h2 className="font-semibold text-sm mb-1">По группам</h2>
+          {groups.filter((g) => report.byGroup[g.name]).map((g) => <Bar key={g.name} label={g.name} completion={report.byGroup[g.name]} />)}
+        </section>
+        <section className="flex flex-col gap-1.5">
+          <h2 className="font-semibold text-sm mb-1">По командам</h2>
+          {Object.entries(report.byOwner)
+            .sort(([a], [b]) => (a === NO_OWNER ? 1 : b === NO_OWNER ? -1 : a.localeCompare(b, "ru")))
+            .map(([o, completion]) => (
+              <button key={o} type="button" onClick={() => setOwner((cur) => (cur === o ? null : o))} className={"rounded px-1 text-left " + (owner === o ? "bg-blue-50 ring-1 ring-blue-300" : "hover:bg-gray-50")}>
+                <Bar label={ownerLabel(o)} completion={completion} title="Показать в списках только эту команду" />
+              </button>
+            ))}
+        </section>
+      </div>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-semibold text-sm">Моя очередь{queue.length > 0 && <span className="font-normal text-muted-foreground"> · {queue.length}</span>}</h2>
+        {teams.size === 0
+          ? <div className="text-xs text-muted-foreground">Ваша команда на этой вкладке не указана — её задаёт администратор в «Доступе».</div>
+          : cellList(queue, `Для команд ${myTeams.join(", ")} всё заполнено и свежее.`)}
+      </section>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <section className="flex flex-col gap-2">
+          <h2 className="font-semibold text-sm">
+            Пустые ячейки <span className="font-normal text-muted-foreground">· {byOwner(report.empty).length}</span>
+            {owner !== null && <span className="font-normal text-muted-foreground"> · {ownerLabel(owner)}</span>}
+          </h2>
+          {cellList(byOwner(report.empty), "Пустых ячеек нет.")}
+        </section>
+        <section className="flex flex-col gap-2">
+          <h2 className="font-semibold text-sm">
+            Устаревшие <span className="font-normal text-muted-foreground">· {byOwner(report.stale).length}</span>
+            {owner !== null && <span className="font-normal text-muted-foreground"> · {ownerLabel(owner)}</span>}
+          </h2>
+          {cellList(byOwner(report.stale), `Все заполненные ячейки обновлялись за последние ${staleDays} дн.`)}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Button } from "@/components/ui/button";
+import { Printer, Save, X, Loader2 } from "lucide-react";
+import type { CellValue, Criterion } from "@/api";
+import { formatValue } from "@/values";
+import { REPORT_CSS, buildSnapshotHtml } from "@/report";
+import { Markdown } from "@/components/Markdown";
+import { downloadBlob, exportFileName } from "@/export";
+
+type ReportCell = { text?: string; value?: CellValue; images?: { url: string; caption?: string }[] };
+type ReportCourse = { id: string; name: string; provider?: string };
+type ReportGroup = { name: string; criteria: Criterion[] };
+
+// при печати прячем всё приложение, остаётся только отчёт без панели управления
+const PRINT_CSS = `
+@media print {
+  body > *:not(.report-root) { display: none !important; }
+  .report-root { position: static !important; overflow: visible !important; }
+  .report-toolbar { display: none !important; }
+}`;
+
+function ReportDocument({ title, courses, groups, getCell }: {
+  title: string;
+  courses: ReportCourse[];
+  groups: ReportGroup[];
+  getCell: (courseId: string, criterionId: string) => ReportCell | undefined;
+}) {
+  return (
+    <div className="report">
+      <h1>{title}</h1>
+      <div className="report-meta">Сформировано {new Date().toLocaleString("ru-RU")} · курсов: {courses.length}</div>
+      {groups.map((g) => (
+        <section key={g.name} className="report-group">
+          <h2>{g.name}</h2>
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>Критерий</th>
+                {courses.map((c) => (
+                  <th key={c.id}>{c.name}{c.provider && <div className="report-course-sub">{c.provider}</div>}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {g.criteria.map((k) => (
+                <tr key={k.id}>
+                  <th scope="row">{k.name}{k.description && <div className="report-criterion-desc">{k.description}</div>}</th>
+                  {courses.map((c) => {
+                    const cell = getCell(c.id, k.id);
+                    const empty = !cell?.value && !cell?.text && !cell?.images?.length;
+                    return (
+                      <td key={c.id}>
+                        {empty && <span className="report-empty">—</span>}
+                        {cell?.value && <div className="report-value">{formatValue(cell.value)}</div>}
+                        {cell?.text && <Markdown text={cell.text} className="report-text" />}
+                        {cell?.images && cell.images.length > 0 && (
+                          <div className="report-figures">
+                            {cell.images.map((img, i) => (
+                              <figure key={i}>
+                                <img src={img.url} alt={img.caption || `Скриншот ${i + 1}`} loading="lazy" />
+                                {img.caption && <figcaption>{img.caption}</figcaption>}
+                              </figure>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: () => void }) {
+  return (
+    <label className={"inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs cursor-pointer " + (checked ? "bg-gray-100 border-gray-500" : "text-muted-foreground")}>
+      <input type="checkbox" checked={checked} onChange={onChange} className="h-3 w-3" />
+      {label}
+    </label>
+  );
+}
+
+// Режим «Отчёт»: выбранные курсы и группы вкладки в вёрстке для печати и сохранения в один HTML-файл
+export function ReportView({ open, title, courses, initialCourseIds, groups, initialGroups, getCell, onClose }: {
+  open: boolean;
+  title: string;
+  courses: ReportCourse[];
+  initialCourseIds: string[];
+  groups: ReportGroup[];
+  initialGroups: string[];
+  getCell: (courseId: string, criterionId: string) => ReportCell | undefined;
+  onClose: () => void;
+}) {
+  const [courseIds, setCourseIds] = useState<string[]>(initialCourseIds);
+  const [groupNames, setGroupNames] = useState<string[]>(initialGroups);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const docRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setCourseIds(initialCourseIds);
+    setGroupNames(initialGroups);
+    setNotice(null);
+  }, [open]);
+
+  const toggle = (list: string[], id: string) => (list.includes(id) ? list.filter((x) => x !== id) : [...list, id]);
+  const shownCourses = useMemo(() => courses.filter((c) => courseIds.includes(c.id)), [courses, courseIds]);
+  const shownGroups = useMemo(() => groups.filter((g) => groupNames.includes(g.name) && g.criteria.length > 0), [groups, groupNames]);
+
+  async function saveHtml() {
+    if (!docRef.current) return;
+    setSaving(true);
+    setNotice(null);
+    try {
+      const { html, failed } = await buildSnapshotHtml(docRef.current, title);
+      downloadBlob(new Blob([html], { type: "text/html;charset=utf-8" }), exportFileName(title, "html"));
+      if (failed) setNotice(`Не удалось встроить картинок: ${failed} — они остались ссылками (сервер не разрешает скачивание).`);
+    } catch (e: any) {
+      setNotice(`Не удалось сохранить: ${e?.message || String(e)}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!open) return null;
+  return createPortal(
+    <div className="report-root fixed inset-0 z-50 overflow-auto bg-white">
+      <style>{REPORT_CSS + PRINT_CSS}</style>
+      <div className="report-toolbar sticky top-0 z-10 border-b bg-white p-3 flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold flex-1">Отчёт</span>
+          <Button size="sm" variant="outline" onClick={() => window.print()}><Printer className="h-4 w-4 mr-1" /> Печать / PDF</Button>
+          <Button size="sm" variant="outline" onClick={saveHtml} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />} Сохранить HTML
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClose} title="Закрыть отчёт"><X className="h-4 w-4" /></Button>
+        </div>
+        <div className="flex flex-wrap gap-1 items-center">
+          <span className="text-xs mr-1">Курсы:</span>
+          {courses.map((c) => <Toggle key={c.id} label={c.name} checked={courseIds.includes(c.id)} onChange={() => setCourseIds((prev) => toggle(prev, c.id))} />)}
+        </div>
+        <div className="flex flex-wrap gap-1 items-center">
+          <span className="text-xs mr-1">Группы:</span>
+          {groups.filter((g) => g.criteria.length > 0).map((g) => <Toggle key={g.name} label={g.name} checked={groupNames.includes(g.name)} onChange={() => setGroupNames((prev) => toggle(prev, g.name))} />)}
+        </div>
+        {notice && <div className="text-xs text-orange-700">{notice}</div>}
+      </div>
+      <div ref={docRef}>
+        <ReportDocument title={title} courses={shownCourses} groups={shownGroups} getCell={getCell} />
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Trash2, X, AlertTriangle } from "lucide-react";
+import { dataSource, type Cell, type Course, type MatrixData, type Snapshot } from "@/api";
+import { groupCriteria } from "@/matrixOps";
+import { formatValue } from "@/values";
+import { CURRENT_STATE, diffKey, diffMatrices, snapshotLabel, type CellChange } from "@/snapshots";
+import { normalizeImageUrl } from "@/components/Img";
+import { AnnotatedImg } from "@/components/Annotations";
+import { ValueView } from "@/components/CellValue";
+import { Markdown } from "@/components/Markdown";
+import { TextDiff } from "@/components/CellHistory";
+
+const CHANGE_STYLE: Record<CellChange, string> = {
+  added: "bg-green-50 border-l-4 border-l-green-500",
+  removed: "bg-red-50 border-l-4 border-l-red-400",
+  changed: "bg-amber-50 border-l-4 border-l-amber-400",
+};
+
+function CellContent({ cell, struck }: { cell?: Cell; struck?: boolean }) {
+  if (!cell) return <span className="text-muted-foreground">—</span>;
+  return (
+    <div className={"flex flex-col gap-1 " + (struck ? "line-through opacity-60" : "")}>
+      {cell.value && <ValueView value={cell.value} />}
+      {cell.text && <Markdown text={cell.text} />}
+      {cell.images && cell.images.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {cell.images.map((img) => (
+            <a key={img.url} href={normalizeImageUrl(img.url)} target="_blank" rel="noreferrer" title={img.caption}>
+              <AnnotatedImg image={img} fit="none" className="rounded border" imgClassName="h-16 max-w-[120px] object-contain" compact />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChangedCell({ before, after }: { before?: Cell; after?: Cell }) {
+  const valueChanged = formatValue(before?.value) !== formatValue(after?.value);
+  return (
+    <div className="flex flex-col gap-1">
+      {valueChanged ? (
+        <div className="text-xs">
+          <span className="line-through text-red-700">{formatValue(before?.value) || "—"}</span>{" → "}
+          <span className="text-green-700 font-medium">{formatValue(after?.value) || "—"}</span>
+        </div>
+      ) : after?.value && <ValueView value={after.value} />}
+      <TextDiff before={before?.text || ""} after={after?.text || ""} />
+      {JSON.stringify(before?.images || []) !== JSON.stringify(after?.images || []) && (
+        <div className="text-xs text-muted-foreground">скриншоты: {before?.images?.length || 0} → {after?.images?.length || 0}</div>
+      )}
+      {before?.score !== after?.score && (
+        <div className="text-xs text-muted-foreground">балл: {before?.score ?? "авто"} → {after?.score ?? "авто"}</div>
+      )}
+    </div>
+  );
+}
+
+// Вкладка «на дату»: просмотр снимка только для чтения и сравнение двух состояний с подсветкой изменений
+export function SnapshotView({ sheet, current, snapshots, asOf, against, onChange, onDelete, onClose }: {
+  sheet: string;
+  current: MatrixData; // живая матрица вместе с неотправленными правками — её не кэшируем, она меняется
+  snapshots: Snapshot[];
+  asOf: string;
+  against: string | null; // id снимка, CURRENT_STATE или null — без сравнения
+  onChange: (asOf: string, against: string | null) => void;
+  onDelete?: (snapshotId: string) => void; // нет — удалять снимки нельзя (не администратор)
+  onClose: () => void;
+}) {
+  const [loaded, setLoaded] = useState<Record<string, MatrixData>>({}); // только снимки: они не меняются
+  const [error, setError] = useState<string | null>(null);
+  const [onlyChanged, setOnlyChanged] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    const missing = [asOf, against].filter((id): id is string => !!id && id !== CURRENT_STATE && !loaded[id]);
+    Promise.all(missing.map(async (id) => [id, await dataSource.loadSnapshot({ tab: sheet, snapshotId: id })] as const))
+      .then((pairs) => { if (!cancelled && pairs.length) setLoaded((prev) => ({ ...prev, ...Object.fromEntries(pairs) })); })
+      .catch((e) => { if (!cancelled) setError(e?.message || String(e)); });
+    return () => { cancelled = true; };
+  }, [sheet, asOf, against]);
+
+  // сравниваем всегда «старое → новое», в каком бы порядке ни выбрали
+  const timeOf = (id: string) => (id === CURRENT_STATE ? Infinity : Date.parse(snapshots.find((s) => s.id === id)?.createdAt || "") || 0);
+  const [beforeId, afterId] = against && timeOf(against) < timeOf(asOf) ? [against, asOf] : [asOf, against];
+  const stateOf = (id: string) => (id === CURRENT_STATE ? current : loaded[id]);
+  const before = stateOf(beforeId);
+  const after = afterId ? stateOf(afterId) : undefined;
+  const shown = after ?? before;
+
+  const diff = useMemo(() => (before && after ? diffMatrices(before, after) : null), [before, after]);
+
+  const cellIndex = (m?: MatrixData) => new Map((m?.cells || []).map((c) => [diffKey(c.courseId, c.criterionId), c]));
+  const beforeCells = useMemo(() => cellIndex(before), [before]);
+  const afterCells = useMemo(() => cellIndex(after), [after]);
+
+  const courses: Course[] = useMemo(() => {
+    if (!shown) return [];
+    if (!diff || !before) return shown.courses.filter((c) => !c.archived);
+    // архивные прячем, как в сетке, — если только курс не появился или не пропал между состояниями
+    const all = new Map([...before.courses, ...shown.courses].map((c) => [c.id, c]));
+    return diff.courses.filter((s) => s.status !== "kept" || !all.get(s.courseId)!.archived).map((s) => all.get(s.courseId)!);
+  }, [shown, before, diff]);
+
+  // в сравнении показываем и критерии, которые успели удалить
+  const groups = useMemo(() => {
+    if (!shown) return [];
+    const criteria = diff && before ? [...shown.criteria, ...before.criteria.filter((k) => !shown.criteria.some((x) => x.id === k.id))] : shown.criteria;
+    return Object.entries(groupCriteria({ criteria, groups: shown.groups }))
+      .map(([name, list]) => ({ name, criteria: onlyChanged && diff ? list.filter((k) => courses.some((c) => diff.cells.has(diffKey(c.id, k.id)))) : list }))
+      .filter((g) => g.criteria.length > 0);
+  }, [shown, before, diff, onlyChanged, courses]);
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <span className="font-medium">Состояние на:</span>
+        <select value={asOf} onChange={(e) => onChange(e.target.value, against === e.target.value ? null : against)} className="border rounded-md px-2 py-1">
+          {snapshots.map((s) => <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>)}
+        </select>
+        {onDelete && (
+          <Button size="sm" variant="ghost" title="Удалить снимок" onClick={() => { if (window.confirm("Удалить снимок? Это необратимо.")) onDelete(asOf); }}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <span className="font-medium ml-2">Сравнить с:</span>
+        <select value={against || ""} onChange={(e) => onChange(asOf, e.target.value || null)} className="border rounded-md px-2 py-1">
+          <option value="">— не сравнивать —</option>
+          <option value={CURRENT_STATE}>Текущее состояние</option>
+          {snapshots.filter((s) => s.id !== asOf).map((s) => <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>)}
+        </select>
+        {diff && (
+          <label className="inline-flex items-center gap-1 ml-2">
+            <input type="checkbox" checked={onlyChanged} onChange={(e) => setOnlyChanged(e.target.checked)} />
+            Только изменения
+          </label>
+        )}
+        <span className="text-xs text-muted-foreground">только просмотр</span>
+        <Button size="sm" variant="ghost" className="ml-auto" onClick={onClose}><X className="h-4 w-4 mr-1" /> К текущей матрице</Button>
+      </div>
+
+      {error && <div className="text-sm text-red-700 inline-flex items-center gap-1 mb-3"><AlertTriangle className="h-4 w-4" /> {error}</div>}
+
+      {!shown || (afterId && !after) ? (
+        !error && <div className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Загружаем снимок…</div>
+      ) : (
+        <>
+          {diff && (
+            <div className="mb-4 rounded-md border p-3 text-sm">
+              <div className="font-medium mb-1">
+                {diff.total === 0 ? "Изменений нет" : `Изменено ячеек: ${diff.total}`}
+              </div>
+              <ul className="flex flex-col gap-0.5">
+                {diff.courses.filter((s) => s.status !== "kept" || s.added + s.removed + s.changed > 0).map((s) => (
+                  <li key={s.courseId}>
+                    <span className="font-medium">{s.name}</span>
+                    {s.status === "added" && <span className="text-green-700"> — новый курс</span>}
+                    {s.status === "removed" && <span className="text-red-700"> — курс удалён</span>}
+                    {s.added > 0 && <span className="text-green-700"> · заполнено {s.added}</span>}
+                    {s.changed > 0 && <span className="text-amber-700"> · изменено {s.changed}</span>}
+                    {s.removed > 0 && <span className="text-red-700"> · очищено {s.removed}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid overflow-x-auto" style={{ gridTemplateColumns: `240px repeat(${courses.length}, minmax(220px, 1fr))` }}>
+            <div className="font-medium border-b px-2 py-2">Критерий</div>
+            {courses.map((c) => {
+              const status = diff?.courses.find((s) => s.courseId === c.id)?.status;
+              return (
+                <div key={c.id} className={"font-medium border-b px-2 py-2 truncate " + (status === "added" ? "text-green-700" : status === "removed" ? "text-red-700 line-through" : "")} title={c.name}>
+                  {c.name}
+                </div>
+              );
+            })}
+            {groups.map((g) => (
+              <React.Fragment key={g.name}>
+                <div className="col-span-full bg-gray-100 px-2 py-2 border-t font-semibold text-sm">{g.name}</div>
+                {g.criteria.map((k) => (
+                  <React.Fragment key={k.id}>
+                    <div className="border-r border-t px-2 py-2 text-sm font-medium">{k.name}</div>
+                    {courses.map((c) => {
+                      const key = diffKey(c.id, k.id);
+                      const change = diff?.cells.get(key);
+                      return (
+                        <div key={c.id} className={"border-t px-2 py-2 text-sm " + (change ? CHANGE_STYLE[change] : "")}>
+                          {change === "changed" ? (
+                            <ChangedCell before={beforeCells.get(key)} after={afterCells.get(key)} />
+                          ) : change === "removed" ? (
+                            <CellContent cell={beforeCells.get(key)} struck />
+                          ) : (
+                            <CellContent cell={(diff ? afterCells : beforeCells).get(key)} />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
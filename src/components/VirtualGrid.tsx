@@ -0,0 +1,228 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+// Строка сетки: подпись слева (залипает при горизонтальной прокрутке) и по ячейке на колонку.
+// pinned — заголовок раздела: пока прокручиваем его строки, он висит под шапкой колонок.
+export type VirtualRow = {
+  key: string;
+  estimate: number; // высота до первого замера
+  pinned?: boolean;
+  className?: string;
+  labelClassName?: string; // у подписи должен быть фон — под ней проезжают ячейки
+  label: () => React.ReactNode;
+  cell: (column: number) => React.ReactNode;
+};
+
+const OVERSCAN_PX = 600; // сколько рисуем за краем видимой области по вертикали
+const OVERSCAN_COLUMNS = 1;
+
+// первая строка, нижний край которой ниже y
+function rowAt(offsets: number[], heights: number[], y: number): number {
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid] + heights[mid] <= y) lo = mid + 1;
+    else hi = mid;
+  }
+  return Math.max(0, lo);
+}
+
+type View = { top: number; left: number; width: number; height: number };
+
+type Layout = { offsets: number[]; heights: number[]; pinned: boolean[]; columnCount: number; labelWidth: number; minColumnWidth: number };
+
+// что рисовать при данной прокрутке: диапазоны строк и колонок и закреплённый заголовок раздела
+function rangeOf({ offsets, heights, pinned: pinnable, columnCount, labelWidth, minColumnWidth }: Layout, view: View) {
+  const columnWidth = columnCount ? Math.max(minColumnWidth, Math.floor((view.width - labelWidth) / columnCount)) : minColumnWidth;
+  const firstCol = Math.max(0, Math.floor(view.left / columnWidth) - OVERSCAN_COLUMNS);
+  const lastCol = Math.min(columnCount, Math.ceil((view.left + view.width - labelWidth) / columnWidth) + OVERSCAN_COLUMNS);
+  const count = offsets.length;
+  const firstRow = count ? rowAt(offsets, heights, view.top - OVERSCAN_PX) : 0;
+  const lastRow = count ? rowAt(offsets, heights, view.top + view.height + OVERSCAN_PX) : -1;
+  // раздел, чьи строки сейчас наверху, а собственный заголовок уже уехал под шапку
+  let pinned = -1;
+  if (count) {
+    for (let i = rowAt(offsets, heights, view.top); i >= 0; i--) if (pinnable[i]) { pinned = i; break; }
+    if (pinned >= 0 && offsets[pinned] >= view.top) pinned = -1;
+  }
+  return { columnWidth, firstCol, lastCol, firstRow, lastRow, pinned };
+}
+
+const sameRange = (a: ReturnType<typeof rangeOf>, b: ReturnType<typeof rangeOf>) =>
+  a.columnWidth === b.columnWidth && a.firstCol === b.firstCol && a.lastCol === b.lastCol && a.firstRow === b.firstRow && a.lastRow === b.lastRow && a.pinned === b.pinned;
+
+export type VirtualGridHandle = {
+  scrollToCell: (rowKey: string, column: number) => void; // докрутить так, чтобы ячейка не пряталась под шапкой и подписями
+  focus: () => void;
+};
+
+// Виртуальная таблица: рисуются только строки и колонки возле видимой области, высоты строк замеряются на лету.
+// Шапка колонок и колонка подписей залипают; прокрутка — внутри своего блока, высотой до низа окна.
+// С onKeyDown блок получает фокус — через него идёт навигация с клавиатуры, копирование и вставка.
+// keepCell рисуется всегда, даже далеко за краем: в нём открыт редактор, и при прокрутке набранное не должно пропасть.
+export const VirtualGrid = forwardRef<VirtualGridHandle, {
+  rows: VirtualRow[];
+  columnKeys: string[];
+  labelWidth?: number;
+  minColumnWidth?: number; // колонки растягиваются на ширину блока, но не уже этого
+  corner: React.ReactNode;
+  header: (column: number) => React.ReactNode;
+  className?: string;
+  onKeyDown?: React.KeyboardEventHandler<HTMLDivElement>;
+  onCopy?: React.ClipboardEventHandler<HTMLDivElement>;
+  onPaste?: React.ClipboardEventHandler<HTMLDivElement>;
+  keepCell?: { rowKey: string; column: number } | null;
+}>(function VirtualGrid({ rows, columnKeys, labelWidth = 280, minColumnWidth = 260, corner, header, className, onKeyDown, onCopy, onPaste, keepCell }, ref) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const view = useRef<View>({ top: 0, left: 0, width: 0, height: 0 }); // последняя прокрутка, даже если не перерисовывали
+  const [, setScrollTick] = useState(0);
+  const [maxHeight, setMaxHeight] = useState<number | undefined>(undefined);
+  const measured = useRef(new Map<string, number>());
+  const [version, setVersion] = useState(0); // растёт при новых замерах — пересчитываем смещения
+
+  // замеры строк: один ResizeObserver на всю сетку, обновления — не чаще кадра
+  const observer = useMemo(() => {
+    let frame = 0;
+    return new ResizeObserver((entries) => {
+      let changed = false;
+      for (const e of entries) {
+        const key = (e.target as HTMLElement).dataset.rowKey;
+        const h = Math.round((e.target as HTMLElement).offsetHeight);
+        if (key && h && measured.current.get(key) !== h) { measured.current.set(key, h); changed = true; }
+      }
+      if (changed && !frame) frame = requestAnimationFrame(() => { frame = 0; setVersion((v) => v + 1); });
+    });
+  }, []);
+  // ref-колбэк на строку постоянный — иначе React отписывал бы и заново подписывал её на каждом рендере;
+  // отписка — когда строка уходит из отрисовки (React зовёт ref с null)
+  const refs = useRef(new Map<string, (el: HTMLDivElement | null) => void>());
+  const measureRef = (key: string) => {
+    let ref = refs.current.get(key);
+    if (!ref) {
+      let current: HTMLDivElement | null = null;
+      ref = (el) => {
+        if (current) observer.unobserve(current);
+        current = el;
+        if (el) observer.observe(el);
+        else refs.current.delete(key);
+      };
+      refs.current.set(key, ref);
+    }
+    return ref;
+  };
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    let frame = 0;
+    const sync = () => {
+      frame = 0;
+      view.current = { top: el.scrollTop, left: el.scrollLeft, width: el.clientWidth, height: el.clientHeight };
+      // прокрутка внутри уже нарисованного запаса — без перерисовки: на больших вкладках это главный выигрыш
+      if (!sameRange(rendered.current, rangeOf(layout.current, view.current))) setScrollTick((t) => t + 1);
+    };
+    const onScroll = () => { if (!frame) frame = requestAnimationFrame(sync); };
+    const ro = new ResizeObserver(onScroll);
+    ro.observe(el);
+    el.addEventListener("scroll", onScroll, { passive: true });
+    sync();
+    return () => { el.removeEventListener("scroll", onScroll); ro.disconnect(); cancelAnimationFrame(frame); };
+  }, []);
+
+  // блок тянется до низа окна: над ним панели переменной высоты, поэтому меряем каждый рендер
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const next = Math.max(360, window.innerHeight - (el.getBoundingClientRect().top + window.scrollY) - 16);
+    if (maxHeight === undefined || Math.abs(next - maxHeight) > 1) setMaxHeight(next);
+  });
+  // высота окна поменялась — перерисовываем, чтобы эффект выше пересчитал высоту блока
+  useEffect(() => {
+    const onResize = () => setVersion((v) => v + 1);
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  const { offsets, heights, total } = useMemo(() => {
+    const offsets: number[] = [];
+    const heights: number[] = [];
+    let y = 0;
+    for (const r of rows) {
+      const h = measured.current.get(r.key) ?? r.estimate;
+      offsets.push(y);
+      heights.push(h);
+      y += h;
+    }
+    return { offsets, heights, total: y };
+  }, [rows, version]);
+
+  const layout = useRef<Layout>(null!);
+  layout.current = { offsets, heights, pinned: rows.map((r) => !!r.pinned), columnCount: columnKeys.length, labelWidth, minColumnWidth };
+  const range = rangeOf(layout.current, view.current);
+  const rendered = useRef(range);
+  rendered.current = range;
+  const { columnWidth, firstCol, lastCol, firstRow, lastRow, pinned } = range;
+  const width = labelWidth + columnKeys.length * columnWidth;
+
+  useImperativeHandle(ref, () => ({
+    focus: () => scrollRef.current?.focus({ preventScroll: true }),
+    scrollToCell: (rowKey, column) => {
+      const el = scrollRef.current;
+      const i = rows.findIndex((r) => r.key === rowKey);
+      if (!el || i < 0) return;
+      const { offsets, heights, pinned: pinnable } = layout.current;
+      const headerHeight = headerRef.current?.offsetHeight || 0;
+      // строку внутри раздела сверху закрывает ещё и его закреплённый заголовок
+      let pinnedHeight = 0;
+      for (let j = i - 1; j >= 0 && !pinnable[i]; j--) if (pinnable[j]) { pinnedHeight = heights[j]; break; }
+      const top = headerHeight + offsets[i]; // тело сетки идёт сразу под шапкой
+      if (top < el.scrollTop + headerHeight + pinnedHeight) el.scrollTop = offsets[i] - pinnedHeight;
+      else if (top + heights[i] > el.scrollTop + el.clientHeight) el.scrollTop = top + heights[i] - el.clientHeight;
+      const left = labelWidth + column * columnWidth;
+      if (left < el.scrollLeft + labelWidth) el.scrollLeft = column * columnWidth;
+      else if (left + columnWidth > el.scrollLeft + el.clientWidth) el.scrollLeft = left + columnWidth - el.clientWidth;
+    },
+  }), [rows, columnWidth, labelWidth]);
+
+  const columns = Array.from({ length: Math.max(0, lastCol - firstCol) }, (_, i) => firstCol + i);
+  const keepColumn = keepCell && keepCell.column >= 0 && keepCell.column < columnKeys.length ? keepCell.column : -1;
+  if (keepColumn >= 0 && !columns.includes(keepColumn)) columns.push(keepColumn);
+  columns.sort((a, b) => a - b);
+  const keepRow = keepCell ? rows.findIndex((r) => r.key === keepCell.rowKey) : -1;
+
+  // колонки идут не подряд (диапазон плюс keepCell) — пропуски заполняем отступом слева
+  const columnStyle = (j: number): React.CSSProperties => ({ width: columnWidth, marginLeft: (columns[j] - (j ? columns[j - 1] + 1 : 0)) * columnWidth });
+
+  const renderRow = (r: VirtualRow, ref?: (el: HTMLDivElement | null) => void) => (
+    <div key={r.key} ref={ref} data-row-key={r.key} className={"flex " + (r.className || "")} style={{ width }}>
+      <div className={"sticky left-0 z-10 shrink-0 " + (r.labelClassName || "bg-white")} style={{ width: labelWidth }}>{r.label()}</div>
+      {columns.map((c, j) => <div key={columnKeys[c]} className="shrink-0" style={columnStyle(j)}>{r.cell(c)}</div>)}
+    </div>
+  );
+
+  return (
+    <div
+      ref={scrollRef}
+      className={"relative overflow-auto outline-none " + (className || "")}
+      style={{ height: maxHeight }}
+      tabIndex={onKeyDown ? 0 : undefined}
+      onKeyDown={onKeyDown}
+      onCopy={onCopy}
+      onPaste={onPaste}
+    >
+      <div ref={headerRef} className="sticky top-0 z-20 flex bg-white" style={{ width }}>
+        <div className="sticky left-0 z-10 shrink-0 bg-white" style={{ width: labelWidth }}>{corner}</div>
+        {columns.map((c, j) => <div key={columnKeys[c]} className="shrink-0" style={columnStyle(j)}>{header(c)}</div>)}
+        {pinned >= 0 && <div className="absolute left-0 top-full shadow-sm">{renderRow(rows[pinned])}</div>}
+      </div>
+      <div style={{ height: total, width, position: "relative" }}>
+        <div style={{ transform: `translateY(${offsets[firstRow] ?? 0}px)` }}>
+          {rows.slice(firstRow, lastRow + 1).map((r, i) => (firstRow + i === keepRow ? <div key={r.key} style={{ height: heights[keepRow] }} /> : renderRow(r, measureRef(r.key))))}
+        </div>
+        {/* строка keepCell всегда здесь, а не в общем потоке: при прокрутке она не переезжает и редактор не пересоздаётся */}
+        {keepRow >= 0 && <div className="absolute left-0" style={{ top: offsets[keepRow] }}>{renderRow(rows[keepRow], measureRef(rows[keepRow].key))}</div>}
+      </div>
+    </div>
+  );
+});
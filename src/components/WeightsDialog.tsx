@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import type { Criterion, WeightProfile } from "@/api";
+import { weightOf } from "@/scoring";
+
+// Профили весов вкладки: у маркетинга и продукта могут быть свои веса одних и тех же критериев
+export function WeightsDialog({ open, profiles, activeId, groups, onClose, onSave }: {
+  open: boolean;
+  profiles: WeightProfile[];
+  activeId: string;
+  groups: Record<string, Criterion[]>;
+  onClose: () => void;
+  onSave: (profiles: WeightProfile[], activeId: string) => void;
+}) {
+  const [draft, setDraft] = useState<WeightProfile[]>(profiles);
+  const [currentId, setCurrentId] = useState(activeId);
+  // черновик берём только при открытии: перерисовки родителя (синхронизация, перезагрузка вкладки) его не сбрасывают
+  useEffect(() => {
+    if (!open) return;
+    setDraft(profiles);
+    setCurrentId(profiles.some((p) => p.id === activeId) ? activeId : profiles[0]?.id ?? "");
+  }, [open]);
+
+  const current = draft.find((p) => p.id === currentId);
+  const patch = (next: Partial<WeightProfile>) => setDraft((prev) => prev.map((p) => (p.id === currentId ? { ...p, ...next } : p)));
+
+  const addProfile = () => {
+    const profile: WeightProfile = { id: `wp-${Date.now()}`, name: "Новый профиль", weights: { ...current?.weights } };
+    setDraft((prev) => [...prev, profile]);
+    setCurrentId(profile.id);
+  };
+
+  const removeProfile = () => {
+    const rest = draft.filter((p) => p.id !== currentId);
+    setDraft(rest);
+    setCurrentId(rest[0]?.id ?? "");
+  };
+
+  const setWeight = (criterionId: string, raw: string) => {
+    if (!current) return;
+    const weights = { ...current.weights };
+    const w = Number(raw);
+    // пустое поле или 1 — вес по умолчанию, лишнего не храним
+    if (raw === "" || w === 1 || !Number.isFinite(w)) delete weights[criterionId];
+    else weights[criterionId] = Math.max(0, w);
+    patch({ weights });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl w-[min(96vw,40rem)] max-h-[85vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Веса критериев</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center gap-2">
+            <select value={currentId} onChange={(e) => setCurrentId(e.target.value)} className="flex-1 border rounded-md px-2 py-1 text-sm">
+              {draft.map((p) => <option key={p.id} value={p.id}>{p.name || "Без названия"}</option>)}
+            </select>
+            <Button size="sm" variant="outline" onClick={addProfile}><Plus className="h-4 w-4 mr-1" /> Профиль</Button>
+            <Button size="icon" variant="ghost" title="Удалить профиль" onClick={removeProfile} disabled={!current}><Trash2 className="h-4 w-4" /></Button>
+          </div>
+          {current ? (
+            <>
+              <div>
+                <Label className="block mb-1" htmlFor="weights-name">Название профиля</Label>
+                <input id="weights-name" value={current.name} onChange={(e) => patch({ name: e.target.value })} className="w-full border rounded-md px-2 py-1 text-sm" />
+              </div>
+              <div className="text-xs text-muted-foreground">Вес 0 исключает критерий из подсчёта. Пустое поле — вес 1.</div>
+              {Object.entries(groups).filter(([, criteria]) => criteria.length > 0).map(([group, criteria]) => (
+                <div key={group}>
+                  <div className="font-semibold text-sm mb-1">{group}</div>
+                  {criteria.map((c) => (
+                    <div key={c.id} className="flex items-center gap-2 py-0.5">
+                      <span className="flex-1 text-sm truncate" title={c.name}>{c.name}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={current.weights[c.id] ?? ""}
+                        placeholder={String(weightOf(current, c.id))}
+                        onChange={(e) => setWeight(c.id, e.target.value)}
+                        className="w-20 border rounded-md px-2 py-1 text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </>
+          ) : (
+            <div className="text-sm text-muted-foreground">Профилей нет — считаем все критерии с весом 1.</div>
+          )}
+        </div>
+        <DialogFooter className="pt-2">
+          <Button size="sm" onClick={() => onSave(draft.map((p) => ({ ...p, name: p.name.trim() || "Без названия" })), currentId)}>Сохранить</Button>
+          <Button size="sm" variant="outline" onClick={onClose}>Отмена</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
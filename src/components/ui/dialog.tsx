@@ -1,8 +1,20 @@
 import React, { useEffect } from "react";
 import { createPortal } from "react-dom";
 
-export function Dialog({ open, onOpenChange, children }: { open?: boolean; onOpenChange?: (o: boolean) => void; children?: React.ReactNode; }) {
+// Esc закрывает только окна с onEscapeKeyDown (preventDefault в нём — оставить открытым):
+// иначе вложенное окно закрывалось бы вместе с родительским
+export function Dialog({ open, onOpenChange, onEscapeKeyDown, children }: { open?: boolean; onOpenChange?: (o: boolean) => void; onEscapeKeyDown?: (e: KeyboardEvent) => void; children?: React.ReactNode; }) {
   useEffect(() => { document.body.style.overflow = open ? "hidden" : ""; return () => { document.body.style.overflow = ""; }; }, [open]);
+  useEffect(() => {
+    if (!open || !onEscapeKeyDown) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      onEscapeKeyDown(e);
+      if (!e.defaultPrevented) onOpenChange?.(false);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
   if (!open) return null;
   return createPortal(
     <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -18,4 +30,4 @@ export function DialogContent({ className = "", children }: { className?: string
 }
 export function DialogHeader({ children }: { children?: React.ReactNode }) { return <div className="mb-2">{children}</div>; }
 export function DialogTitle({ children }: { children?: React.ReactNode }) { return <h3 className="text-lg font-semibold">{children}</h3>; }
-export function DialogFooter({ children }: { children?: React.ReactNode }) { return <div className="mt-3 flex gap-2 justify-end">{children}</div>; }
+export function DialogFooter({ className = "", children }: { className?: string; children?: React.ReactNode }) { return <div className={"mt-3 flex gap-2 justify-end " + className}>{children}</div>; }
@@ -0,0 +1,87 @@
+// Выгрузка и импорт: то, что выгрузили, без правок загружается обратно как «ничего не изменилось»
+import { describe, expect, it } from 'vitest';
+import type { CellValue, Criterion } from './api';
+import { toCsv, toXlsx, type ExportCell, type ExportTable } from './export';
+import { guessKeyColumns, isSameCell, matchByName, mergeImported, parseCsv, parseImportedCell } from './import';
+import { readZip } from './zip';
+
+const criteria: Criterion[] = [
+  { id: 'k1', name: 'Описание', group: 'Общее' },
+  { id: 'k2', name: 'Телефон', group: 'Общее' },
+  { id: 'k3', name: 'Изменение цены', group: 'Цены', valueType: 'number', unit: '%' },
+  { id: 'k4', name: 'Стоимость', group: 'Цены', valueType: 'money', currency: 'RUB' },
+];
+const courses = [{ id: 'c1', name: 'Курс «А»' }, { id: 'c2', name: 'Курс, Б' }];
+
+type Stored = { text?: string; images: string[]; value?: CellValue };
+const cells: Record<string, Stored> = {
+  'c1|k1': { text: '**Жирно** и [ссылка](https://example.com)\n- пункт', images: ['https://img.example.com/1.png'] },
+  'c1|k2': { text: '+7 495 123-45-67', images: [] },
+  'c1|k3': { value: { kind: 'number', value: -5, unit: '%' }, images: [] },
+  'c1|k4': { value: { kind: 'money', amount: 1500, currency: 'RUB' }, text: 'в месяц', images: [] },
+  'c2|k1': { text: '=HYPERLINK("http://evil")', images: [] },
+  'c2|k2': { text: '@мы, "в кавычках"', images: [] },
+};
+
+const table: ExportTable = {
+  title: 'Тест',
+  courses,
+  groups: [
+    { name: 'Общее', criteria: criteria.slice(0, 2) },
+    { name: 'Цены', criteria: criteria.slice(2) },
+  ],
+  getCell: (courseId, criterionId): ExportCell | undefined => {
+    const c = cells[`${courseId}|${criterionId}`];
+    return c && { text: c.text, value: c.value, images: c.images.map((url) => ({ url })) };
+  },
+};
+
+describe('CSV', () => {
+  const rows = parseCsv(toCsv(table));
+
+  it('экранирует текст, похожий на формулу', () => {
+    const lines = toCsv(table).split('\r\n');
+    expect(lines.some((l) => l.includes(`"'=HYPERLINK(""http://evil"")"`))).toBe(true);
+    expect(lines.some((l) => l.includes("'+7 495 123-45-67"))).toBe(true);
+  });
+
+  it('сохраняет заголовок и строки критериев', () => {
+    expect(rows[0]).toEqual(['Группа', 'Критерий', 'Курс «А»', 'Курс, Б']);
+    expect(rows.slice(1).map((r) => r[1])).toEqual(criteria.map((k) => k.name));
+    expect(guessKeyColumns(rows[0])).toEqual({ idCol: -1, nameCol: 1 });
+  });
+
+  it('повторный импорт без правок ничего не меняет', () => {
+    const [, , ...names] = rows[0];
+    for (const row of rows.slice(1)) {
+      const criterion = matchByName(row[1], criteria, (k) => k.name)!;
+      names.forEach((name, j) => {
+        const course = matchByName(name, courses, (c) => c.name)!;
+        const before = cells[`${course.id}|${criterion.id}`];
+        if (!before) return expect(row[j + 2]).toBe('');
+        const imported = parseImportedCell(criterion, row[j + 2]);
+        const merged = mergeImported(before, imported);
+        expect(merged.text).toBe(before.text || '');
+        expect(merged.images).toEqual(before.images);
+        expect(merged.value).toEqual(before.value);
+        expect(isSameCell(before, merged)).toBe(true);
+      });
+    }
+  });
+
+  it('снимает апостроф только перед формульными символами', () => {
+    expect(parseImportedCell(undefined, "'=1+1").text).toBe('=1+1');
+    expect(parseImportedCell(undefined, "'цитата'").text).toBe("'цитата'");
+    expect(parseImportedCell(criteria[2], "'-5 %").value).toEqual({ kind: 'number', value: -5, unit: '%' });
+  });
+});
+
+describe('XLSX', () => {
+  it('строки пишет как есть, без апострофа', async () => {
+    const files = await readZip(toXlsx(table));
+    const sheet = new TextDecoder().decode(files.get('xl/worksheets/sheet1.xml'));
+    expect(sheet).toContain('<t xml:space="preserve">+7 495 123-45-67</t>');
+    expect(sheet).toContain('<t xml:space="preserve">=HYPERLINK(&quot;http://evil&quot;)</t>');
+    expect(sheet).not.toContain("'+7");
+  });
+});
@@ -0,0 +1,177 @@
+// src/export.ts
+// Выгрузка вкладки в CSV, XLSX (лист на группу) и Markdown.
+// Что попадает в выгрузку (курсы, группы, порядок), решает вызывающий — здесь только форматы.
+import type { CellValue, Criterion } from './api';
+import { formatValue } from './values';
+import { markdownToPlain } from './markdown';
+import { createZip } from './zip';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'md';
+
+export type ExportCell = { text?: string; value?: CellValue; images?: { url: string; caption?: string }[] };
+
+export type ExportTable = {
+  title: string;
+  courses: { id: string; name: string }[];
+  groups: { name: string; criteria: Criterion[] }[];
+  getCell: (courseId: string, criterionId: string) => ExportCell | undefined;
+};
+
+export const EXPORT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  md: 'Markdown',
+};
+
+// значение, текст без Markdown-разметки и ссылки на скриншоты — по строке на каждое
+function cellLines(cell?: ExportCell): string[] {
+  if (!cell) return [];
+  return [formatValue(cell.value), markdownToPlain(cell.text || ''), ...(cell.images || []).map((img) => img.url)].filter(Boolean);
+}
+
+// в CSV текст, начинающийся с = + - @, Excel примет за формулу — экранируем апострофом (импорт его снимает)
+const noFormula = (s: string) => (/^[=+\-@\t\r]/.test(s) ? `'${s}` : s);
+
+// === CSV ===
+const csvField = (raw: string) => {
+  const s = noFormula(raw);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function toCsv(t: ExportTable): string {
+  const rows = [['Группа', 'Критерий', ...t.courses.map((c) => c.name)]];
+  for (const g of t.groups) {
+    for (const k of g.criteria) {
+      rows.push([g.name, k.name, ...t.courses.map((c) => cellLines(t.getCell(c.id, k.id)).join('\n'))]);
+    }
+  }
+  // BOM — чтобы Excel открыл кириллицу без мастера импорта
+  return '\uFEFF' + rows.map((r) => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// === Markdown ===
+const mdEscape = (s: string) => s.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+// текст ячейки уже Markdown — оставляем как есть: строчная разметка работает и внутри таблицы
+function mdCell(cell?: ExportCell): string {
+  if (!cell) return '';
+  const text = [formatValue(cell.value), cell.text?.trim() || ''].filter(Boolean).map(mdEscape);
+  const links = (cell.images || []).map((img, i) => `[${mdEscape(img.caption || `скриншот ${i + 1}`).replace(/[[\]]/g, '')}](${img.url.replace(/\)/g, '%29')})`);
+  return [...text, links.join(' ')].filter(Boolean).join('<br>');
+}
+
+export function toMarkdown(t: ExportTable): string {
+  const head = ['Критерий', ...t.courses.map((c) => c.name)].map(mdEscape);
+  const lines = [`# ${t.title}`, '', `| ${head.join(' | ')} |`, `|${head.map(() => ' --- ').join('|')}|`];
+  for (const g of t.groups) {
+    lines.push(`| **${mdEscape(g.name)}** |${t.courses.map(() => ' ').join('|')}|`);
+    for (const k of g.criteria) {
+      lines.push(`| ${[mdEscape(k.name), ...t.courses.map((c) => mdCell(t.getCell(c.id, k.id)))].join(' | ')} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// === XLSX ===
+const xmlEscape = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    // управляющие символы XML не пропускает вовсе
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+function columnName(i: number): string {
+  let s = '';
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+// Excel: до 31 символа, без []:*?/\ и без повторов в книге
+function sheetNames(groups: string[]): string[] {
+  const used = new Set<string>();
+  return groups.map((g, i) => {
+    const base = g.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Лист ${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)}~${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// стиль 1 — жирный заголовок, стиль 2 — перенос строк в ячейках
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf></cellXfs>
+</styleSheet>`;
+
+function sheetXml(t: ExportTable, criteria: Criterion[]): string {
+  const row = (r: number, values: string[], style: number) =>
+    `<row r="${r}">${values.map((v, i) => v
+      ? `<c r="${columnName(i)}${r}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${xmlEscape(v)}</t></is></c>`
+      : '').join('')}</row>`;
+  const rows = [
+    row(1, ['Критерий', ...t.courses.map((c) => c.name)], 1),
+    ...criteria.map((k, i) => row(i + 2, [k.name, ...t.courses.map((c) => cellLines(t.getCell(c.id, k.id)).join('\n'))], 2)),
+  ];
+  const cols = `<cols><col min="1" max="1" width="36" customWidth="1"/>${t.courses.length ? `<col min="2" max="${t.courses.length + 1}" width="48" customWidth="1"/>` : ''}</cols>`;
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/></sheetView></sheetViews>${cols}<sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+export function toXlsx(t: ExportTable): ArrayBuffer {
+  const groups = t.groups.length ? t.groups : [{ name: t.title, criteria: [] }];
+  const names = sheetNames(groups.map((g) => g.name));
+  const sheets = groups.map((g, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(t, g.criteria) }));
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets.map((s) => `<Override PartName="/${s.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      path: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names.map((n, i) => `<sheet name="${xmlEscape(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`,
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { path: 'xl/styles.xml', data: STYLES_XML },
+    ...sheets,
+  ]);
+}
+
+const MIME: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  md: 'text/markdown;charset=utf-8',
+};
+
+export function exportTable(t: ExportTable, format: ExportFormat): Blob {
+  const body = format === 'csv' ? toCsv(t) : format === 'md' ? toMarkdown(t) : toXlsx(t);
+  return new Blob([body], { type: MIME[format] });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// «Вкладка 2025-01-31.xlsx»; символы, запрещённые в именах файлов, убираем
+export const exportFileName = (title: string, ext: ExportFormat | 'html') =>
+  `${title.replace(/[\\/:*?"<>|]+/g, ' ').trim() || 'matrix'} ${new Date().toISOString().slice(0, 10)}.${ext}`;
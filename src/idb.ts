@@ -0,0 +1,66 @@
+// src/idb.ts
+// Минимальное key-value хранилище поверх IndexedDB.
+// Если IndexedDB недоступен (приватный режим, тесты в node) — живём в памяти.
+
+export type KvStore = {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  del(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+};
+
+const STORE = 'kv';
+
+function req<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function openDb(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const r = indexedDB.open(name, 1);
+    r.onupgradeneeded = () => { r.result.createObjectStore(STORE); };
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+export function createMemoryStore(initial: Record<string, unknown> = {}): KvStore {
+  const map = new Map<string, unknown>(Object.entries(initial));
+  return {
+    async get(key) { return map.get(key) as any; },
+    async set(key, value) { map.set(key, value); },
+    async del(key) { map.delete(key); },
+    async keys() { return Array.from(map.keys()); },
+  };
+}
+
+// одна база = один store «kv», так разные модули не делят схему и версии.
+// Если база не открылась (Firefox в приватном режиме, запрещённое хранилище) — дальше работаем в памяти
+export function createIdbStore(dbName: string): KvStore {
+  if (typeof indexedDB === 'undefined') return createMemoryStore();
+  let store: Promise<KvStore> | null = null;
+  const open = () => store ??= openDb(dbName).then(
+    (db): KvStore => {
+      const tx = (mode: IDBTransactionMode) => db.transaction(STORE, mode).objectStore(STORE);
+      return {
+        get: (key) => req(tx('readonly').get(key)),
+        async set(key, value) { await req(tx('readwrite').put(value, key)); },
+        async del(key) { await req(tx('readwrite').delete(key)); },
+        async keys() { return (await req(tx('readonly').getAllKeys())).map(String); },
+      };
+    },
+    (e) => {
+      console.warn(`IndexedDB «${dbName}» недоступен, данные хранятся только до перезагрузки`, e);
+      return createMemoryStore();
+    },
+  );
+  return {
+    async get(key) { return (await open()).get(key); },
+    async set(key, value) { return (await open()).set(key, value); },
+    async del(key) { return (await open()).del(key); },
+    async keys() { return (await open()).keys(); },
+  };
+}
@@ -0,0 +1,38 @@
+// src/imageUpload.ts
+// Подготовка скриншота к загрузке: уменьшаем до MAX_SIDE по длинной стороне и пережимаем,
+// чтобы ретина-скриншоты на 5–10 МБ не забивали хранилище и не тормозили сетку.
+
+const MAX_SIDE = 2000;
+const QUALITY = 0.85;
+// маленькие картинки в пределах размера отправляем как есть — пережатие только испортит текст на скриншоте
+const KEEP_AS_IS_BYTES = 300_000;
+
+export const isImageFile = (f: File) => f.type.startsWith('image/');
+
+// скриншот из буфера обмена приходит как image.png без даты — даём имя, по которому его потом можно узнать
+export const uploadName = (f: File) =>
+  f.name && f.name !== 'image.png' ? f.name : `screenshot-${new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')}.png`;
+
+const toBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, QUALITY));
+
+export async function prepareImage(file: Blob): Promise<Blob> {
+  if (file.type === 'image/gif' || file.type === 'image/svg+xml') return file; // анимацию и вектор не трогаем
+  let bmp: ImageBitmap;
+  try {
+    bmp = await createImageBitmap(file);
+  } catch {
+    return file; // формат, который браузер не декодирует, — пусть разбирается бэкенд
+  }
+  const k = Math.min(1, MAX_SIDE / Math.max(bmp.width, bmp.height));
+  if (k === 1 && file.size <= KEEP_AS_IS_BYTES) return file;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bmp.width * k);
+  canvas.height = Math.round(bmp.height * k);
+  canvas.getContext('2d')!.drawImage(bmp, 0, 0, canvas.width, canvas.height);
+  bmp.close();
+  // webp есть не везде: Safari молча отдаёт png — тогда берём jpeg
+  let out = await toBlob(canvas, 'image/webp');
+  if (!out || out.type !== 'image/webp') out = await toBlob(canvas, 'image/jpeg');
+  return out && out.size < file.size ? out : file;
+}
@@ -0,0 +1,165 @@
+// src/import.ts
+// Импорт таблицы (CSV/XLSX): чтение файла, сопоставление колонок с курсами и строк с критериями,
+// расчёт изменений ячеек для предпросмотра. Запись делает вызывающий — тем же путём, что и ручная правка.
+import type { CellValue, Criterion } from './api';
+import { markdownToPlain } from './markdown';
+import { formatValue, parseValue, validateValue } from './values';
+import { readZip } from './zip';
+
+export type ImportSheet = { name: string; rows: string[][] };
+
+// === CSV ===
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map((d) => [d, firstLine.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, '');
+  const d = detectDelimiter(src);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === d) { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+// старые выгрузки Excel бывают в cp1251 — если UTF-8 не читается, пробуем её
+async function readText(file: File): Promise<string> {
+  const buf = await file.arrayBuffer();
+  const utf8 = new TextDecoder('utf-8').decode(buf);
+  return utf8.includes('\uFFFD') ? new TextDecoder('windows-1251').decode(buf) : utf8;
+}
+
+// === XLSX ===
+const byTag = (root: Document | Element, tag: string) => Array.from(root.getElementsByTagNameNS('*', tag));
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/)?.[0] || 'A';
+  return letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+async function parseXlsx(buffer: ArrayBuffer): Promise<ImportSheet[]> {
+  const files = await readZip(buffer);
+  const dec = new TextDecoder();
+  const xml = (path: string) => {
+    const f = files.get(path);
+    return f ? new DOMParser().parseFromString(dec.decode(f), 'application/xml') : null;
+  };
+
+  const shared = byTag(xml('xl/sharedStrings.xml') ?? new Document(), 'si').map((si) => byTag(si, 't').map((t) => t.textContent || '').join(''));
+  const rels = Object.fromEntries(byTag(xml('xl/_rels/workbook.xml.rels') ?? new Document(), 'Relationship').map((r) => [r.getAttribute('Id'), r.getAttribute('Target') || '']));
+  const workbook = xml('xl/workbook.xml');
+  if (!workbook) throw new Error('В файле нет xl/workbook.xml — это точно XLSX?');
+
+  return byTag(workbook, 'sheet').map((sheet) => {
+    const rid = sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') || sheet.getAttribute('r:id');
+    const target = rels[rid || ''] || '';
+    const doc = xml(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    const rows: string[][] = [];
+    for (const r of doc ? byTag(doc, 'row') : []) {
+      const row: string[] = [];
+      for (const c of byTag(r, 'c')) {
+        const type = c.getAttribute('t');
+        const v = byTag(c, 'v')[0]?.textContent ?? '';
+        const text = type === 's' ? shared[Number(v)] ?? ''
+          : type === 'inlineStr' ? byTag(c, 't').map((t) => t.textContent || '').join('')
+          : type === 'b' ? (v === '1' ? 'да' : 'нет')
+          : v;
+        row[columnIndex(c.getAttribute('r') || '')] = text;
+      }
+      rows.push(Array.from(row, (x) => x ?? ''));
+    }
+    return { name: sheet.getAttribute('name') || '', rows: rows.filter((r) => r.some((x) => x.trim())) };
+  });
+}
+
+export async function readSpreadsheet(file: File): Promise<ImportSheet[]> {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.(csv|tsv|txt)$/i.test(file.name)) return [{ name: file.name, rows: parseCsv(await readText(file)) }];
+  throw new Error('Поддерживаются только .csv и .xlsx');
+}
+
+// === Сопоставление ===
+export const normalizeName = (s: string) =>
+  s.toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// точное совпадение после нормализации, затем вхождение, затем доля общих слов
+export function matchByName<T>(name: string, items: T[], nameOf: (x: T) => string): T | undefined {
+  const n = normalizeName(name);
+  if (!n) return undefined;
+  const normalized = items.map((x) => [x, normalizeName(nameOf(x))] as const).filter(([, m]) => m);
+  const exact = normalized.find(([, m]) => m === n);
+  if (exact) return exact[0];
+  const contains = normalized.filter(([, m]) => m.includes(n) || n.includes(m));
+  if (contains.length === 1) return contains[0][0];
+  const words = new Set(n.split(' '));
+  let best: { item: T; score: number } | undefined;
+  for (const [item, m] of normalized) {
+    const other = m.split(' ');
+    const common = other.filter((w) => words.has(w)).length;
+    const score = common / (words.size + other.length - common);
+    if (score >= 0.5 && (!best || score > best.score)) best = { item, score };
+  }
+  return best?.item;
+}
+
+// первая строка — заголовок; колонка с названиями критериев и колонка criterion_id, если есть
+export function guessKeyColumns(header: string[]) {
+  const norm = header.map(normalizeName);
+  const idCol = norm.findIndex((h) => h === 'criterion id');
+  const nameCol = norm.findIndex((h) => h === 'критерий' || h === 'criterion' || h === 'название');
+  return { idCol, nameCol: nameCol >= 0 ? nameCol : idCol === 0 ? 1 : 0 };
+}
+
+// === Изменения ===
+export type ImportedCell = { text: string; images: string[]; value?: CellValue };
+
+// из ячейки таблицы: ссылки на картинки — в скриншоты, первая строка — в значение, если разбирается под тип.
+// Апостроф перед = + - @ ставит наша выгрузка в CSV, чтобы Excel не счёл текст формулой, — снимаем его
+export function parseImportedCell(criterion: Criterion | undefined, raw: string): ImportedCell {
+  const lines = raw.replace(/^'(?=[=+\-@\t\r])/, '').split(/\r?\n/);
+  const images = lines.map((l) => l.trim()).filter((l) => /^https?:\/\/\S+$/.test(l));
+  const rest = lines.filter((l) => !images.includes(l.trim()));
+  const first = rest.findIndex((l) => l.trim());
+  const value = first >= 0 ? parseValue(criterion, rest[first]) : undefined;
+  const valid = value && !validateValue(criterion, value) ? value : undefined;
+  return { text: (valid ? rest.filter((_, i) => i !== first) : rest).join('\n').trim(), images, value: valid };
+}
+
+export type ImportChange = {
+  courseId: string;
+  criterionId: string;
+  kind: 'create' | 'overwrite';
+  before?: { text?: string; images: string[]; value?: CellValue };
+  after: ImportedCell;
+};
+
+// скриншоты добавляем к уже имеющимся, текст и значение заменяем.
+// Выгрузка пишет текст без Markdown: если он совпал с нашим текстом без разметки, ячейка не менялась — разметку оставляем
+export function mergeImported(before: ImportChange['before'], imported: ImportedCell): ImportedCell {
+  const keepMarkdown = !!before?.text && markdownToPlain(before.text) === imported.text;
+  return {
+    text: keepMarkdown ? before!.text! : imported.text,
+    images: Array.from(new Set([...(before?.images || []), ...imported.images])),
+    value: imported.value ?? before?.value,
+  };
+}
+
+export const isSameCell = (a: ImportChange['before'], b: ImportedCell) =>
+  (a?.text || '') === b.text && (a?.images || []).join('\n') === b.images.join('\n') && formatValue(a?.value) === formatValue(b.value);
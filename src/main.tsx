@@ -1,13 +1,19 @@
 import React from "react";
 import { createRoot } from "react-dom/client";
 import CompetitorMatrix from "./CompetitorMatrix";
-import { PasswordGate } from "./PasswordGate";
+import { AuthGate } from "./AuthGate";
+import { connectSession } from "./api";
+import { auth } from "./auth";
+import { restoreRedirectedRoute } from "./route";
 import "./index.css";
 
+restoreRedirectedRoute();
+connectSession(auth);
+
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <PasswordGate>
+    <AuthGate>
       <CompetitorMatrix />
-    </PasswordGate>
+    </AuthGate>
   </React.StrictMode>
 );
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToPlain, parseMarkdown, safeUrl } from './markdown';
+
+describe('parseMarkdown', () => {
+  it('строчная разметка', () => {
+    expect(parseMarkdown('**жирно** и _курсив_, snake_case_name, `код`')).toEqual([{
+      type: 'paragraph',
+      children: [
+        { type: 'strong', children: [{ type: 'text', text: 'жирно' }] },
+        { type: 'text', text: ' и ' },
+        { type: 'em', children: [{ type: 'text', text: 'курсив' }] },
+        { type: 'text', text: ', snake_case_name, ' },
+        { type: 'code', text: 'код' },
+      ],
+    }]);
+  });
+
+  it('опасные ссылки остаются текстом', () => {
+    expect(parseMarkdown('[клик](javascript:alert(1))')).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: 'клик' }] }]);
+    expect(safeUrl('mailto:a@b.ru')).toBe('mailto:a@b.ru');
+    expect(safeUrl('data:text/html,x')).toBeNull();
+  });
+
+  it('вложенный пункт списка — продолжение родительского', () => {
+    const [list] = parseMarkdown('- один\n  - вложенный\n- два');
+    expect(list.type === 'list' && list.items.length).toBe(2);
+    expect(markdownToPlain('- один\n  - вложенный\n- два')).toBe('• один\n- вложенный\n• два');
+  });
+
+  it('таблица с выравниванием', () => {
+    const [table] = parseMarkdown('| a | b |\n|:--|--:|\n| 1 | 2 \\| 3 |');
+    expect(table.type === 'table' && table.align).toEqual(['left', 'right']);
+    expect(markdownToPlain('| a | b |\n|:--|--:|\n| 1 | 2 \\| 3 |')).toBe('a | b\n1 | 2 | 3');
+  });
+});
+
+describe('markdownToPlain', () => {
+  it('ссылки сохраняют адрес, голый адрес не дублируется', () => {
+    expect(markdownToPlain('[сайт](https://example.com) и https://example.com/a.')).toBe('сайт (https://example.com/) и https://example.com/a.');
+  });
+
+  it('заголовки, цитаты, код и разделитель', () => {
+    expect(markdownToPlain('# Итог\n> цитата\n\n```\nx = 1\n```\n---')).toBe('Итог\nцитата\nx = 1\n—');
+  });
+});
@@ -0,0 +1,257 @@
+// src/markdown.ts
+// Markdown в тексте ячеек: небольшой разбор в дерево (абзацы, заголовки, списки, таблицы, код, цитаты;
+// жирный, курсив, инлайн-код, ссылки). HTML не поддерживается вовсе — дерево рисуется React-элементами,
+// а ссылки пропускаются только http(s) и mailto. Плюс обратное превращение в простой текст для выгрузок.
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MdInline[] }
+  | { type: 'em'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'br' };
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'heading'; level: number; children: MdInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdInline[][] }
+  | { type: 'table'; align: MdAlign[]; head: MdInline[][]; rows: MdInline[][][] }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; children: MdBlock[] }
+  | { type: 'hr' };
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+// null — ссылку не показываем (javascript:, data:, относительные пути и прочее)
+export function safeUrl(raw: string): string | null {
+  try {
+    const url = new URL(raw.trim());
+    return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// === Строчная разметка ===
+const ESCAPABLE = /[\\`*_[\]()#+\-.!|>~]/;
+const AUTOLINK = /^https?:\/\/[^\s<>]+/i;
+
+function pushText(out: MdInline[], text: string) {
+  const last = out[out.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else if (text) out.push({ type: 'text', text });
+}
+
+// закрывающий разделитель: не сразу после открывающего и не после пробела — «2 * 3 * 4» остаётся текстом
+function findClose(s: string, delim: string, from: number): number {
+  for (let i = s.indexOf(delim, from + 1); i >= 0; i = s.indexOf(delim, i + 1)) {
+    if (s[i - 1] !== ' ' && s[i - 1] !== '\\') return i;
+  }
+  return -1;
+}
+
+// парная скобка адреса ссылки: в адресах бывают свои скобки (вики, javascript:f(1))
+function closingParen(s: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < s.length && s[i] !== '\n'; i++) {
+    if (s[i] === '(') depth++;
+    else if (s[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function parseInline(s: string): MdInline[] {
+  const out: MdInline[] = [];
+  let i = 0;
+  while (i < s.length) {
+    const ch = s[i];
+    if (ch === '\\' && ESCAPABLE.test(s[i + 1] || '')) { pushText(out, s[i + 1]); i += 2; continue; }
+    if (ch === '\n') { out.push({ type: 'br' }); i++; continue; }
+    if (ch === '`') {
+      let ticks = 1;
+      while (s[i + ticks] === '`') ticks++;
+      const fence = '`'.repeat(ticks);
+      const end = s.indexOf(fence, i + ticks);
+      if (end > i + ticks) { out.push({ type: 'code', text: s.slice(i + ticks, end).trim() }); i = end + ticks; continue; }
+      pushText(out, fence); i += ticks; continue;
+    }
+    if ((ch === '*' || ch === '_') && s[i + 1] === ch && s[i + 2] && s[i + 2] !== ' ') {
+      const end = findClose(s, ch + ch, i + 1);
+      if (end > i + 2) { out.push({ type: 'strong', children: parseInline(s.slice(i + 2, end)) }); i = end + 2; continue; }
+    }
+    // _курсив_ только на границе слова, чтобы не ломать snake_case
+    if ((ch === '*' || (ch === '_' && !/\w/.test(s[i - 1] || ''))) && s[i + 1] && s[i + 1] !== ' ' && s[i + 1] !== ch) {
+      const end = findClose(s, ch, i);
+      if (end > i + 1 && !(ch === '_' && /\w/.test(s[end + 1] || ''))) { out.push({ type: 'em', children: parseInline(s.slice(i + 1, end)) }); i = end + 1; continue; }
+    }
+    if (ch === '[') {
+      const close = s.indexOf('](', i + 1);
+      const end = close >= 0 ? closingParen(s, close + 1) : -1;
+      if (close > i && end > close) {
+        const label = parseInline(s.slice(i + 1, close));
+        const href = safeUrl(s.slice(close + 2, end));
+        if (href) out.push({ type: 'link', href, children: label });
+        else for (const part of label) part.type === 'text' ? pushText(out, part.text) : out.push(part);
+        i = end + 1;
+        continue;
+      }
+    }
+    if ((ch === 'h' || ch === 'H') && !/\w/.test(s[i - 1] || '')) {
+      const m = AUTOLINK.exec(s.slice(i));
+      // хвостовую пунктуацию считаем концом предложения, а не частью адреса
+      const raw = m?.[0].replace(/[.,;:!?)]+$/, '');
+      const href = raw && safeUrl(raw);
+      if (raw && href) { out.push({ type: 'link', href, children: [{ type: 'text', text: raw }] }); i += raw.length; continue; }
+    }
+    pushText(out, ch);
+    i++;
+  }
+  return out;
+}
+
+// === Блоки ===
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^\s{0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIM = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// строка таблицы: крайние | необязательны, \| — символ внутри ячейки
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let cur = '';
+  let s = line.trim();
+  if (s.startsWith('|')) s = s.slice(1);
+  if (s.endsWith('|') && !s.endsWith('\\|')) s = s.slice(0, -1);
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === '\\' && s[i + 1] === '|') { cur += '|'; i++; }
+    else if (s[i] === '|') { cells.push(cur.trim()); cur = ''; }
+    else cur += s[i];
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+const alignOf = (cell: string): MdAlign => {
+  const c = cell.trim();
+  if (c.startsWith(':') && c.endsWith(':')) return 'center';
+  if (c.endsWith(':')) return 'right';
+  return c.startsWith(':') ? 'left' : null;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_DELIM.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) || HEADING.test(lines[i]) || HR.test(lines[i]) || QUOTE.test(lines[i]) || LIST_ITEM.test(lines[i]) || isTableStart(lines, i);
+
+function parseLines(lines: string[]): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) body.push(lines[i]);
+      blocks.push({ type: 'code', text: body.join('\n') });
+      i++; // закрывающая ограда (или конец текста)
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) { blocks.push({ type: 'hr' }); i++; continue; }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) body.push(lines[i].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseLines(body) });
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first) {
+      const ordered = /\d/.test(first[1]);
+      const indent = line.length - line.trimStart().length;
+      const items: string[] = [];
+      for (; i < lines.length; i++) {
+        const m = LIST_ITEM.exec(lines[i]);
+        // пункт с отступом от двух пробелов глубже первого — вложенный, его показываем текстом
+        const nested = !!m && items.length > 0 && lines[i].length - lines[i].trimStart().length >= indent + 2;
+        if (m && !nested && /\d/.test(m[1]) === ordered) items.push(m[2]);
+        // продолжение пункта — строка с отступом, в том числе вложенный пункт
+        else if ((!m || nested) && items.length && /^\s+\S/.test(lines[i])) items[items.length - 1] += '\n' + lines[i].trim();
+        else break;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[1], 10) : 1, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const head = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(alignOf);
+      const rows: MdInline[][][] = [];
+      for (i += 2; i < lines.length && lines[i].trim() && lines[i].includes('|'); i++) {
+        const cells = splitRow(lines[i]);
+        rows.push(head.map((_, j) => parseInline(cells[j] || '')));
+      }
+      blocks.push({ type: 'table', align: head.map((_, j) => align[j] ?? null), head: head.map(parseInline), rows });
+      continue;
+    }
+
+    // абзац: переносы строк внутри сохраняем — так ячейки выглядели и до Markdown
+    const para: string[] = [line.trim()];
+    for (i++; i < lines.length && lines[i].trim() && !startsBlock(lines, i); i++) para.push(lines[i].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(para.join('\n')) });
+  }
+  return blocks;
+}
+
+export const parseMarkdown = (text: string): MdBlock[] => parseLines(text.replace(/\r\n?/g, '\n').split('\n'));
+
+// === Простой текст ===
+function inlineToPlain(nodes: MdInline[]): string {
+  return nodes.map((n) => {
+    if (n.type === 'text' || n.type === 'code') return n.text;
+    if (n.type === 'br') return '\n';
+    if (n.type === 'link') {
+      const label = inlineToPlain(n.children);
+      // адрес в выгрузке нужен, иначе ссылка потеряется; голый адрес не дублируем
+      if (!label) return n.href;
+      return label === n.href || safeUrl(label) === n.href ? label : `${label} (${n.href})`;
+    }
+    return inlineToPlain(n.children);
+  }).join('');
+}
+
+function blockToPlain(b: MdBlock): string {
+  switch (b.type) {
+    case 'paragraph':
+    case 'heading':
+      return inlineToPlain(b.children);
+    case 'list':
+      return b.items.map((item, i) => `${b.ordered ? `${b.start + i}.` : '•'} ${inlineToPlain(item)}`).join('\n');
+    case 'table':
+      return [b.head, ...b.rows].map((row) => row.map(inlineToPlain).join(' | ')).join('\n');
+    case 'code':
+      return b.text;
+    case 'quote':
+      return b.children.map(blockToPlain).join('\n');
+    case 'hr':
+      return '—';
+  }
+}
+
+// текст ячейки без разметки — для CSV и Excel
+export const markdownToPlain = (text: string) => parseMarkdown(text).map(blockToPlain).join('\n').trim();
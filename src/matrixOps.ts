@@ -0,0 +1,68 @@
+// src/matrixOps.ts
+// Чистые преобразования MatrixData — общие для локального бэкенда и наложения outbox.
+import type { CellImage, Criterion, MatrixData, UpsertCriterionPayload } from './api';
+
+// элементы из order — в его порядке, неупомянутые остаются в хвосте (сортировка стабильная)
+export function sortByOrder<T extends { id: string }>(items: T[], order: string[]): T[] {
+  const pos = new Map(order.map((id, i) => [id, i]));
+  return [...items].sort((a, b) => (pos.get(a.id) ?? order.length) - (pos.get(b.id) ?? order.length));
+}
+
+// поля upsertCriterion приходят в «табличных» именах (section, filled_by); undefined — не трогаем
+export function applyCriterionUpsert(m: MatrixData, { criterionId, section, criterion, description, filled_by, filled_by_only, deleted, value_type, options, unit, currency, score_direction }: UpsertCriterionPayload): MatrixData {
+  const prev = m.criteria.find((c) => c.id === criterionId);
+  const next: Criterion = {
+    ...(prev ?? { id: criterionId, name: criterion || criterionId }),
+    ...(criterion !== undefined && { name: criterion }),
+    ...(section !== undefined && { group: section || undefined }),
+    ...(description !== undefined && { description: description || undefined }),
+    ...(filled_by !== undefined && { filledBy: filled_by || undefined }),
+    ...(filled_by_only !== undefined && { filledByOnly: filled_by_only || undefined }),
+    ...(deleted !== undefined && { deleted: deleted || undefined }),
+    ...(value_type !== undefined && { valueType: value_type }),
+    ...(options !== undefined && { options: options.length ? options : undefined }),
+    ...(unit !== undefined && { unit: unit || undefined }),
+    ...(currency !== undefined && { currency: currency || undefined }),
+    ...(score_direction !== undefined && { scoreDirection: score_direction || undefined }),
+  };
+  return {
+    ...m,
+    criteria: prev ? m.criteria.map((c) => (c.id === criterionId ? next : c)) : [...m.criteria, next],
+  };
+}
+
+export function applyGroupRename(m: MatrixData, from: string, to: string): MatrixData {
+  return {
+    ...m,
+    groups: m.groups?.map((g) => (g === from ? to : g)),
+    criteria: m.criteria.map((c) => (c.group === from ? { ...c, group: to } : c)),
+  };
+}
+
+// служебная строка «Курс» (описание курса) и её группа — в сетке показываются отдельно от критериев
+export const COURSE_CRIT_ID = 'course_meta';
+export const COURSE_GROUP = '0. Курс';
+export const MISC_GROUP = 'Прочие критерии'; // куда падают новые критерии
+
+// критерии по группам: сначала сохранённый порядок групп (в том числе пустые), потом всё, что встретилось в критериях
+export function groupCriteria(m: Pick<MatrixData, 'criteria' | 'groups'>): Record<string, Criterion[]> {
+  const groups: Record<string, Criterion[]> = {};
+  for (const g of m.groups || []) if (g !== COURSE_GROUP) groups[g] = [];
+  for (const c of m.criteria) {
+    if (c.id === COURSE_CRIT_ID || c.group === COURSE_GROUP || c.deleted) continue;
+    const g = c.group ? (c.group === 'XI. Прочее' ? MISC_GROUP : c.group) : MISC_GROUP;
+    if (!groups[g]) groups[g] = [];
+    groups[g].push(c);
+  }
+  if (!groups[MISC_GROUP]) groups[MISC_GROUP] = [];
+  return groups;
+}
+
+// картинка ячейки раньше была просто ссылкой — такие данные ещё лежат в таблицах, IndexedDB и очереди outbox
+export const toCellImage = (img: string | CellImage): CellImage => (typeof img === 'string' ? { url: img } : img);
+
+export function normalizeCellImages<T extends { images?: (string | CellImage)[] }>(cell: T): T & { images?: CellImage[] } {
+  return cell.images ? { ...cell, images: cell.images.map(toCellImage) } : (cell as T & { images?: CellImage[] });
+}
+
+export const normalizeMatrixImages = (m: MatrixData): MatrixData => ({ ...m, cells: m.cells.map(normalizeCellImages) });
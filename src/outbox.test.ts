@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConflictError, ForbiddenError, type MatrixDataSource, type UpsertCellPayload } from './api';
+import { createMemoryStore } from './idb';
+import { createOutbox } from './outbox';
+
+// бэкенд, который отвечает тем, что вернёт reply; вызовы записываем
+function fakeSource(reply: (p: UpsertCellPayload) => unknown) {
+  const calls: UpsertCellPayload[] = [];
+  const source = {
+    upsertCell: vi.fn(async (p: UpsertCellPayload) => {
+      calls.push(p);
+      const r = reply(p);
+      if (r instanceof Error) throw r;
+      return r;
+    }),
+  } as unknown as MatrixDataSource;
+  return { source, calls };
+}
+
+const op = (text: string, baseRevision?: number) => ({
+  kind: 'upsertCell' as const,
+  payload: { tab: 't', courseId: 'c1', criterionId: 'k1', text, images: [], baseRevision },
+});
+
+describe('outbox', () => {
+  beforeEach(() => { vi.useFakeTimers(); vi.setSystemTime(0); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('отправляет и передаёт версию следующей правке той же ячейки', async () => {
+    const { source, calls } = fakeSource((p) => ({ revision: (p.baseRevision ?? 0) + 1 }));
+    const box = createOutbox(source, createMemoryStore());
+    await box.enqueue(op('a', 0));
+    await vi.runAllTimersAsync();
+    expect(calls.map((c) => c.text)).toEqual(['a']);
+    expect(box.getSnapshot().entries).toEqual([]);
+    expect(box.getSnapshot().versions['t|c1|k1']).toEqual({ revision: 1 });
+  });
+
+  it('повторяет с нарастающей паузой, новая правка ячейки заменяет неотправленную', async () => {
+    let online = false;
+    const { source, calls } = fakeSource(() => (online ? { revision: 1 } : new Error('Failed to fetch')));
+    const box = createOutbox(source, createMemoryStore());
+    await box.enqueue(op('a'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(box.getSnapshot().entries[0]).toMatchObject({ attempts: 1, status: 'pending', nextAttemptAt: 2000 });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(box.getSnapshot().entries[0]).toMatchObject({ attempts: 2, nextAttemptAt: 2000 + 4000 });
+
+    await box.enqueue(op('b'));
+    expect(box.getSnapshot().entries.map((e) => e.kind === 'upsertCell' && e.payload.text)).toEqual(['b']);
+    online = true;
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map((c) => c.text)).toEqual(['a', 'a', 'b']);
+    expect(box.getSnapshot().entries).toEqual([]);
+  });
+
+  it('конфликт ждёт решения пользователя, отказ в доступе не повторяется', async () => {
+    const current = { courseId: 'c1', criterionId: 'k1', text: 'чужое', revision: 5 };
+    const { source, calls } = fakeSource((p) => (p.criterionId === 'k1' ? new ConflictError(current) : new ForbiddenError()));
+    const box = createOutbox(source, createMemoryStore());
+    await box.enqueue(op('моё', 4));
+    await box.enqueue({ kind: 'upsertCell', payload: { ...op('x').payload, criterionId: 'k2' } });
+    await vi.advanceTimersByTimeAsync(60_000);
+    const [conflict, denied] = box.getSnapshot().entries;
+    expect(conflict).toMatchObject({ status: 'conflict', conflict: current });
+    expect(denied).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(calls).toHaveLength(2);
+
+    await box.discard(conflict.id);
+    expect(box.getSnapshot().entries.map((e) => e.id)).toEqual([denied.id]);
+  });
+
+  it('записи другого пользователя не показывает и не отправляет', async () => {
+    let user = 'anna';
+    const store = createMemoryStore();
+    const { source, calls } = fakeSource(() => new Error('offline'));
+    const box = createOutbox(source, store, () => user);
+    await box.enqueue(op('от Анны'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    user = 'boris';
+    const { source: online, calls: sent } = fakeSource(() => ({ revision: 1 }));
+    const other = createOutbox(online, store, () => user);
+    await other.flush();
+    expect(other.getSnapshot().entries).toEqual([]);
+    expect(sent).toEqual([]);
+    expect(calls).toHaveLength(1);
+  });
+});
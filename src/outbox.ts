@@ -0,0 +1,303 @@
+// src/outbox.ts
+// Очередь исходящих записей: сначала кладём операцию в IndexedDB, потом отправляем в MatrixDataSource.
+// Переживает перезагрузку страницы, повторяет с экспоненциальной задержкой, отдаёт статус в UI.
+import { useSyncExternalStore } from 'react';
+import { ConflictError, ForbiddenError, currentUser, dataSource, type Cell, type Competitor, type Course, type CellVersion, type Criterion, type MatrixData, type MatrixDataSource, type TabAccess, type UpsertCellPayload, type UpsertCriterionPayload, type WeightProfile } from './api';
+import { applyCriterionUpsert, applyGroupRename, sortByOrder, toCellImage } from './matrixOps';
+import { createIdbStore, type KvStore } from './idb';
+
+export type OutboxOp =
+  | { kind: 'upsertCell'; payload: UpsertCellPayload }
+  | { kind: 'addCourse'; payload: { tab: string; courseId: string; name?: string } }
+  | { kind: 'updateCourse'; payload: { tab: string; course: Course } }
+  | { kind: 'reorderCourses'; payload: { tab: string; order: string[] } }
+  | { kind: 'deleteCourse'; payload: { tab: string; courseId: string } }
+  | { kind: 'addCriterion'; payload: { tab: string; criterion: Criterion } }
+  | { kind: 'upsertCriterion'; payload: UpsertCriterionPayload }
+  | { kind: 'reorderCriteria'; payload: { tab: string; order: string[] } }
+  | { kind: 'setGroups'; payload: { tab: string; groups: string[] } }
+  | { kind: 'renameGroup'; payload: { tab: string; from: string; to: string } }
+  | { kind: 'saveWeightProfiles'; payload: { tab: string; profiles: WeightProfile[] } }
+  | { kind: 'saveAccess'; payload: { tab: string; access: TabAccess } }
+  | { kind: 'upsertCompetitor'; payload: { tab: string; competitor: Competitor } }; // конкурент общий для всех вкладок, tab — для проверки прав
+
+export type OutboxEntry = OutboxOp & {
+  id: string;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  // conflict — бэкенд отклонил запись по baseRevision, ждём решения пользователя
+  status: 'pending' | 'failed' | 'conflict';
+  owner?: string; // User.id того, кто поставил запись; записи старых версий — без него
+  lastError?: string;
+  conflict?: Cell; // текущая версия на бэкенде
+};
+
+export type CellSyncStatus = 'pending' | 'failed' | 'conflict' | 'saved';
+
+export type OutboxSnapshot = {
+  entries: OutboxEntry[]; // только записи текущего пользователя
+  saved: Record<string, number>; // cellKey -> когда подтвердил бэкенд
+  versions: Record<string, CellVersion>; // cellKey -> версия после последней нашей записи
+  flushing: boolean;
+};
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const SAVED_BADGE_MS = 4000;
+
+export const cellKey = (tab: string, courseId: string, criterionId: string) => `${tab}|${courseId}|${criterionId}`;
+
+// операции, где важна только последняя версия; null — каждая операция сама по себе
+function coalesceKey(op: OutboxOp): string | null {
+  switch (op.kind) {
+    case 'upsertCell': return `cell|${cellKey(op.payload.tab, op.payload.courseId, op.payload.criterionId)}`;
+    case 'reorderCourses':
+    case 'reorderCriteria':
+    case 'setGroups':
+    case 'saveWeightProfiles':
+    case 'saveAccess': return `${op.kind}|${op.payload.tab}`;
+    case 'upsertCompetitor': return `${op.kind}|${op.payload.competitor.id}`;
+    default: return null;
+  }
+}
+
+const backoff = (attempts: number) => Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+
+// отказ в доступе повторять бессмысленно — сразу в failed
+const isTerminal = (e: unknown) => e instanceof ForbiddenError || String((e as any)?.message ?? e).toUpperCase().includes('UNAUTHORIZED');
+
+// owner — кто сейчас вошёл. Очередь общая на браузер, но запись уходит только под токеном того, кто её сделал:
+// после смены пользователя чужие записи ждут, пока их владелец войдёт снова, и в интерфейсе не видны
+export function createOutbox(source: MatrixDataSource, store: KvStore, owner: () => string | undefined = () => undefined) {
+  let snapshot: OutboxSnapshot = { entries: [], saved: {}, versions: {}, flushing: false };
+  let all: OutboxEntry[] = []; // вместе с чужими
+  let shownFor: string | undefined; // для кого посчитан snapshot.entries
+  const listeners = new Set<() => void>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let loaded: Promise<void> | null = null;
+
+  function emit(patch: Partial<OutboxSnapshot>) {
+    snapshot = { ...snapshot, ...patch };
+    listeners.forEach((l) => l());
+  }
+
+  const mine = (e: OutboxEntry) => !e.owner || e.owner === owner();
+
+  function setAll(entries: OutboxEntry[]) {
+    all = entries;
+    shownFor = owner();
+    emit({ entries: all.filter(mine) });
+  }
+
+  // каждая операция начинается отсюда — заодно пересчитываем видимое, если пользователь сменился
+  async function load() {
+    loaded ??= (async () => {
+      const keys = await store.keys();
+      const entries = (await Promise.all(keys.map((k) => store.get<OutboxEntry>(k)))).filter(Boolean) as OutboxEntry[];
+      setAll(entries.sort((a, b) => a.createdAt - b.createdAt));
+    })();
+    await loaded;
+    if (shownFor !== owner()) setAll(all);
+  }
+
+  function schedule() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const next = snapshot.entries.filter((e) => e.status === 'pending').map((e) => e.nextAttemptAt);
+    if (!next.length) return;
+    timer = setTimeout(() => { void flush(); }, Math.max(0, Math.min(...next) - Date.now()));
+  }
+
+  async function put(entry: OutboxEntry) {
+    await store.set(entry.id, entry);
+    const exists = all.some((e) => e.id === entry.id);
+    setAll(exists ? all.map((e) => (e.id === entry.id ? entry : e)) : [...all, entry]);
+  }
+
+  async function remove(id: string) {
+    await store.del(id);
+    setAll(all.filter((e) => e.id !== id));
+  }
+
+  async function markSaved(entry: OutboxEntry, version?: CellVersion) {
+    if (entry.kind !== 'upsertCell') return;
+    const key = cellKey(entry.payload.tab, entry.payload.courseId, entry.payload.criterionId);
+    if (version?.revision !== undefined) {
+      // правки той же ячейки, поставленные пока эта летела, основаны уже на новой версии
+      for (const e of snapshot.entries) {
+        if (e.kind === 'upsertCell' && e.id !== entry.id && cellKey(e.payload.tab, e.payload.courseId, e.payload.criterionId) === key && e.payload.baseRevision === entry.payload.baseRevision) {
+          await put({ ...e, payload: { ...e.payload, baseRevision: version.revision } });
+        }
+      }
+    }
+    emit({ saved: { ...snapshot.saved, [key]: Date.now() }, versions: version ? { ...snapshot.versions, [key]: version } : snapshot.versions });
+    setTimeout(() => {
+      if (Date.now() - (snapshot.saved[key] ?? 0) < SAVED_BADGE_MS) return;
+      const { [key]: _, ...rest } = snapshot.saved;
+      emit({ saved: rest });
+    }, SAVED_BADGE_MS);
+  }
+
+  // отправляем строго по порядку: курс должен появиться раньше, чем его ячейки
+  async function flush() {
+    await load();
+    if (snapshot.flushing) return;
+    emit({ flushing: true });
+    try {
+      for (const entry of snapshot.entries) {
+        // пока шла отправка, пользователь мог выйти — его записи под чужим токеном не шлём
+        if (entry.status !== 'pending' || entry.nextAttemptAt > Date.now() || !mine(entry)) continue;
+        try {
+          let version: CellVersion | void = undefined;
+          if (entry.kind === 'upsertCell') version = await source.upsertCell(entry.payload);
+          else if (entry.kind === 'addCourse') await source.addCourse(entry.payload);
+          else if (entry.kind === 'updateCourse') await source.updateCourse(entry.payload);
+          else if (entry.kind === 'reorderCourses') await source.reorderCourses(entry.payload);
+          else if (entry.kind === 'deleteCourse') await source.deleteCourse(entry.payload);
+          else if (entry.kind === 'upsertCriterion') await source.upsertCriterion(entry.payload);
+          else if (entry.kind === 'reorderCriteria') await source.reorderCriteria(entry.payload);
+          else if (entry.kind === 'setGroups') await source.setGroups(entry.payload);
+          else if (entry.kind === 'renameGroup') await source.renameGroup(entry.payload);
+          else if (entry.kind === 'saveWeightProfiles') await source.saveWeightProfiles(entry.payload);
+          else if (entry.kind === 'saveAccess') await source.saveAccess(entry.payload);
+          else if (entry.kind === 'upsertCompetitor') await source.upsertCompetitor(entry.payload);
+          else await source.addCriterion(entry.payload);
+          await remove(entry.id);
+          await markSaved(entry, version || undefined);
+        } catch (e: any) {
+          if (e instanceof ConflictError) {
+            await put({ ...entry, status: 'conflict', conflict: e.current, lastError: e.message });
+            continue;
+          }
+          const attempts = entry.attempts + 1;
+          const failed = isTerminal(e) || attempts >= MAX_ATTEMPTS;
+          await put({
+            ...entry,
+            attempts,
+            status: failed ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + backoff(attempts),
+            lastError: e?.message || String(e),
+          });
+          if (!failed) break; // сеть/бэкенд лежит — остальное подождёт следующей попытки
+        }
+      }
+    } finally {
+      emit({ flushing: false });
+      schedule();
+    }
+  }
+
+  async function enqueue(op: OutboxOp) {
+    await load();
+    // новая запись той же ячейки (или новый порядок, набор весов) заменяет ещё не отправленную
+    const key = coalesceKey(op);
+    if (key) {
+      const stale = snapshot.entries.filter((e) => coalesceKey(e) === key);
+      for (const e of stale) await remove(e.id);
+    }
+    const now = Date.now();
+    await put({ ...op, id: `op-${now}-${Math.random().toString(36).slice(2, 8)}`, createdAt: now, attempts: 0, nextAttemptAt: now, status: 'pending', owner: owner() } as OutboxEntry);
+    void flush();
+  }
+
+  // конфликты повтор не лечит — их разрешает новая запись ячейки (enqueue) или discard()
+  async function retryAll() {
+    await load();
+    for (const e of snapshot.entries) if (e.status !== 'conflict') await put({ ...e, status: 'pending', attempts: 0, nextAttemptAt: 0 });
+    await flush();
+  }
+
+  async function discard(id: string) {
+    await load();
+    await remove(id);
+  }
+
+  // накладываем неотправленные операции на то, что вернул бэкенд, — иначе после перезагрузки правки «пропадут»
+  async function applyPending(tab: string, matrix: MatrixData): Promise<MatrixData> {
+    await load();
+    let m = matrix;
+    for (const e of snapshot.entries) {
+      if (e.kind === 'upsertCompetitor' || e.payload.tab !== tab) continue;
+      if (e.kind === 'addCourse') {
+        const { courseId, name } = e.payload;
+        if (!m.courses.some((c) => c.id === courseId)) m = { ...m, courses: [...m.courses, { id: courseId, name: name || `Курс ${m.courses.length + 1}` }] };
+      } else if (e.kind === 'updateCourse') {
+        const { course } = e.payload;
+        m = { ...m, courses: m.courses.map((c) => (c.id === course.id ? course : c)) };
+      } else if (e.kind === 'reorderCourses') {
+        m = { ...m, courses: sortByOrder(m.courses, e.payload.order) };
+      } else if (e.kind === 'deleteCourse') {
+        const { courseId } = e.payload;
+        m = { ...m, courses: m.courses.filter((c) => c.id !== courseId), cells: m.cells.filter((c) => c.courseId !== courseId) };
+      } else if (e.kind === 'addCriterion') {
+        const { criterion } = e.payload;
+        if (!m.criteria.some((c) => c.id === criterion.id)) m = { ...m, criteria: [...m.criteria, criterion] };
+      } else if (e.kind === 'upsertCriterion') {
+        m = applyCriterionUpsert(m, e.payload);
+      } else if (e.kind === 'reorderCriteria') {
+        m = { ...m, criteria: sortByOrder(m.criteria, e.payload.order) };
+      } else if (e.kind === 'setGroups') {
+        m = { ...m, groups: e.payload.groups };
+      } else if (e.kind === 'renameGroup') {
+        m = applyGroupRename(m, e.payload.from, e.payload.to);
+      } else if (e.kind === 'saveWeightProfiles') {
+        m = { ...m, weightProfiles: e.payload.profiles };
+      } else if (e.kind === 'saveAccess') {
+        m = { ...m, access: e.payload.access };
+      } else {
+        const { courseId, criterionId, text, images, value, score, baseRevision } = e.payload;
+        const cells = m.cells.filter((c) => !(c.courseId === courseId && c.criterionId === criterionId));
+        // версия — та, от которой шла правка: следующая правка после перезагрузки проверится от неё же
+        m = { ...m, cells: [...cells, { courseId, criterionId, text: text || undefined, images: images.map(toCellImage), value, score, revision: baseRevision }] };
+      }
+    }
+    return m;
+  }
+
+  // конкуренты не привязаны к вкладке: неотправленные записи новее бэкендовых
+  async function applyPendingCompetitors(competitors: Competitor[]): Promise<Competitor[]> {
+    await load();
+    let list = competitors;
+    for (const e of snapshot.entries) {
+      if (e.kind !== 'upsertCompetitor') continue;
+      const { competitor } = e.payload;
+      list = list.some((c) => c.id === competitor.id) ? list.map((c) => (c.id === competitor.id ? competitor : c)) : [...list, competitor];
+    }
+    return list;
+  }
+
+  if (typeof window !== 'undefined') window.addEventListener('online', () => { void retryAll(); });
+  void flush();
+
+  return {
+    enqueue,
+    flush,
+    retryAll,
+    discard,
+    applyPending,
+    applyPendingCompetitors,
+    subscribe(l: () => void) { listeners.add(l); return () => { listeners.delete(l); }; },
+    getSnapshot: () => snapshot,
+  };
+}
+
+export type Outbox = ReturnType<typeof createOutbox>;
+
+export const outbox: Outbox = createOutbox(dataSource, createIdbStore('cmatrix-outbox'), () => currentUser()?.id);
+
+export function pendingCellEntry(s: OutboxSnapshot, tab: string, courseId: string, criterionId: string) {
+  const key = cellKey(tab, courseId, criterionId);
+  return s.entries.find((e): e is Extract<OutboxEntry, { kind: 'upsertCell' }> => e.kind === 'upsertCell' && cellKey(e.payload.tab, e.payload.courseId, e.payload.criterionId) === key);
+}
+
+export function cellSyncStatus(s: OutboxSnapshot, tab: string, courseId: string, criterionId: string): CellSyncStatus | undefined {
+  const entry = pendingCellEntry(s, tab, courseId, criterionId);
+  if (entry) return entry.status;
+  return s.saved[cellKey(tab, courseId, criterionId)] ? 'saved' : undefined;
+}
+
+export function useOutbox(): OutboxSnapshot {
+  return useSyncExternalStore(outbox.subscribe, outbox.getSnapshot);
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { Cell, Criterion } from './api';
+import { NO_OWNER, computeProgress, percent } from './progress';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+const criteria: Criterion[] = [
+  { id: 'k1', name: 'Цена', filledBy: 'Маркетинг' },
+  { id: 'k2', name: 'Формат' },
+];
+const cells: Cell[] = [
+  { courseId: 'c1', criterionId: 'k1', text: 'есть', updatedAt: '2025-12-20T00:00:00Z' },
+  { courseId: 'c1', criterionId: 'k2', value: { kind: 'boolean', value: 'yes' }, updatedAt: '2025-01-01T00:00:00Z' },
+  { courseId: 'c2', criterionId: 'k1', text: '   ' },
+  { courseId: 'c2', criterionId: 'k2', text: 'давно', updatedAt: '2024-06-01T00:00:00Z' },
+];
+
+describe('computeProgress', () => {
+  const report = computeProgress({
+    courseIds: ['c1', 'c2'],
+    groups: [{ name: 'Общее', criteria }],
+    getCell: (courseId, criterionId) => cells.find((c) => c.courseId === courseId && c.criterionId === criterionId),
+    now: NOW,
+  });
+
+  it('считает заполненность по курсам, группам и командам', () => {
+    expect(report.overall).toEqual({ filled: 3, total: 4 });
+    expect(report.byCourse).toEqual({ c1: { filled: 2, total: 2 }, c2: { filled: 1, total: 2 } });
+    expect(report.byGroup).toEqual({ 'Общее': { filled: 3, total: 4 } });
+    expect(report.byOwner).toEqual({ 'Маркетинг': { filled: 1, total: 2 }, [NO_OWNER]: { filled: 2, total: 2 } });
+  });
+
+  it('пустые ячейки и устаревшие — самые старые первыми', () => {
+    expect(report.empty).toEqual([{ courseId: 'c2', criterionId: 'k1', group: 'Общее', owner: 'Маркетинг' }]);
+    expect(report.stale.map((r) => r.courseId)).toEqual(['c2', 'c1']);
+  });
+
+  it('percent', () => {
+    expect(percent({ filled: 1, total: 3 })).toBe(33);
+    expect(percent({ filled: 0, total: 0 })).toBe(100);
+  });
+});
@@ -0,0 +1,68 @@
+// src/progress.ts
+// Заполненность вкладки: доля непустых ячеек по курсам, группам критериев и командам «Заполняет»,
+// плюс списки пустых и давно не обновлявшихся ячеек — для панели прогресса.
+import type { Cell, Criterion } from './api';
+import { isEmptyCell } from './search';
+
+export const DEFAULT_STALE_DAYS = 90;
+export const NO_OWNER = ''; // критерии без «Заполняет»
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Completion = { filled: number; total: number };
+
+export type CellRef = {
+  courseId: string;
+  criterionId: string;
+  group: string;
+  owner: string; // filledBy или NO_OWNER
+  updatedAt?: string; // только у устаревших
+};
+
+export type ProgressReport = {
+  overall: Completion;
+  byCourse: Record<string, Completion>;
+  byGroup: Record<string, Completion>;
+  byOwner: Record<string, Completion>;
+  empty: CellRef[];
+  stale: CellRef[]; // заполнены, но не обновлялись дольше staleDays; ячейки без даты сюда не попадают
+};
+
+export const percent = ({ filled, total }: Completion) => (total ? Math.round((filled / total) * 100) : 100);
+
+const bump = (map: Record<string, Completion>, key: string, filled: boolean) => {
+  const c = (map[key] ??= { filled: 0, total: 0 });
+  c.total++;
+  if (filled) c.filled++;
+};
+
+export function computeProgress({ courseIds, groups, getCell, staleDays = DEFAULT_STALE_DAYS, now = Date.now() }: {
+  courseIds: string[];
+  groups: { name: string; criteria: Criterion[] }[];
+  getCell: (courseId: string, criterionId: string) => Cell | undefined;
+  staleDays?: number;
+  now?: number;
+}): ProgressReport {
+  const report: ProgressReport = { overall: { filled: 0, total: 0 }, byCourse: {}, byGroup: {}, byOwner: {}, empty: [], stale: [] };
+  const staleBefore = now - staleDays * DAY_MS;
+  for (const { name: group, criteria } of groups) {
+    for (const k of criteria) {
+      const owner = k.filledBy?.trim() || NO_OWNER;
+      for (const courseId of courseIds) {
+        const cell = getCell(courseId, k.id);
+        const filled = !isEmptyCell(cell);
+        report.overall.total++;
+        if (filled) report.overall.filled++;
+        bump(report.byCourse, courseId, filled);
+        bump(report.byGroup, group, filled);
+        bump(report.byOwner, owner, filled);
+        const ref = { courseId, criterionId: k.id, group, owner };
+        if (!filled) report.empty.push(ref);
+        else if (cell?.updatedAt && Date.parse(cell.updatedAt) < staleBefore) report.stale.push({ ...ref, updatedAt: cell.updatedAt });
+      }
+    }
+  }
+  // самые старые — первыми
+  report.stale.sort((a, b) => Date.parse(a.updatedAt!) - Date.parse(b.updatedAt!));
+  return report;
+}
@@ -0,0 +1,106 @@
+// src/report.ts
+// Отчёт для печати и автономный HTML-снимок: свои стили без Tailwind (файл должен открываться где угодно),
+// картинки при сохранении встраиваются как data URI.
+
+export const REPORT_CSS = `
+.report { font: 13px/1.45 -apple-system, "Segoe UI", Roboto, Arial, sans-serif; color: #111; background: #fff; padding: 24px; }
+.report h1 { font-size: 22px; margin: 0 0 4px; }
+.report h2 { font-size: 17px; margin: 0 0 8px; }
+.report-meta { color: #666; font-size: 12px; margin-bottom: 20px; }
+.report-group { margin-bottom: 28px; }
+.report-table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+.report-table th, .report-table td { border: 1px solid #d4d4d8; padding: 6px 8px; vertical-align: top; text-align: left; }
+.report-table thead th { background: #f4f4f5; }
+.report-table tbody th { width: 22%; font-weight: 600; }
+.report-course-sub { font-weight: 400; color: #666; font-size: 11px; }
+.report-criterion-desc { font-weight: 400; color: #666; font-size: 11px; white-space: pre-line; }
+.report-value { font-weight: 600; }
+.report-text { word-break: break-word; }
+.report-text p, .report-text ul, .report-text ol, .report-text pre, .report-text blockquote { margin: 2px 0; }
+.report-text ul, .report-text ol { padding-left: 18px; }
+.report-text ul { list-style: disc; }
+.report-text ol { list-style: decimal; }
+.report-text code, .report-text pre { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 12px; background: #f4f4f5; border-radius: 3px; }
+.report-text pre { padding: 4px 6px; white-space: pre-wrap; }
+.report-text blockquote { border-left: 2px solid #d4d4d8; padding-left: 6px; color: #555; }
+.report-text a { color: #2563eb; }
+.report-text table { border-collapse: collapse; margin: 2px 0; font-size: 12px; }
+.report-table .report-text th, .report-table .report-text td { padding: 2px 5px; width: auto; }
+.report-empty { color: #a1a1aa; }
+.report-figures { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 6px; }
+.report-figures figure { margin: 0; max-width: 180px; }
+.report-figures img { display: block; max-width: 180px; max-height: 140px; border: 1px solid #e4e4e7; border-radius: 4px; object-fit: contain; }
+.report-figures figcaption { font-size: 11px; color: #555; margin-top: 2px; }
+@page { size: A4 landscape; margin: 12mm; }
+@media print {
+  .report { padding: 0; }
+  .report-group + .report-group { break-before: page; }
+  .report-table thead { display: table-header-group; }
+  .report-table tr { break-inside: avoid; }
+}
+`;
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result));
+    r.onerror = () => reject(r.error);
+    r.readAsDataURL(blob);
+  });
+
+// большие скриншоты ужимаем до MAX_SIDE по длинной стороне, иначе файл разрастается до сотен мегабайт
+const MAX_SIDE = 1600;
+
+async function toDataUri(url: string): Promise<string> {
+  const res = await fetch(url, { mode: 'cors', credentials: 'omit' });
+  if (!res.ok) throw new Error(`${res.status}`);
+  const blob = await res.blob();
+  try {
+    const bmp = await createImageBitmap(blob);
+    // декодированную картинку отпускаем сразу — иначе большой отчёт держит в памяти все скриншоты
+    try {
+      const k = Math.min(1, MAX_SIDE / Math.max(bmp.width, bmp.height));
+      if (k === 1 && blob.size < 400_000) return await readAsDataUrl(blob);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(bmp.width * k);
+      canvas.height = Math.round(bmp.height * k);
+      canvas.getContext('2d')!.drawImage(bmp, 0, 0, canvas.width, canvas.height);
+      return canvas.toDataURL('image/jpeg', 0.85);
+    } finally {
+      bmp.close();
+    }
+  } catch {
+    return readAsDataUrl(blob);
+  }
+}
+
+// failed — сколько разных картинок не удалось скачать (обычно CORS); в файле они остаются внешними ссылками
+export async function buildSnapshotHtml(node: HTMLElement, title: string): Promise<{ html: string; failed: number }> {
+  const clone = node.cloneNode(true) as HTMLElement;
+  const cache = new Map<string, Promise<string | null>>();
+  const failed = new Set<string>();
+  await Promise.all(Array.from(clone.querySelectorAll('img')).map(async (img) => {
+    const src = img.getAttribute('src') || '';
+    if (!src || src.startsWith('data:')) return;
+    if (!cache.has(src)) cache.set(src, toDataUri(src).catch(() => null));
+    const data = await cache.get(src)!;
+    img.removeAttribute('loading');
+    if (data) img.setAttribute('src', data);
+    else failed.add(src);
+  }));
+  const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  const html = `<!doctype html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body style="margin:0">
+${clone.outerHTML}
+</body>
+</html>
+`;
+  return { html, failed: failed.size };
+}
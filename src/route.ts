@@ -0,0 +1,74 @@
+// src/route.ts
+// Состояние просмотра в адресе страницы — чтобы ссылкой можно было поделиться:
+//   {base}{вкладка}/{курс}/{критерий}?img=2&gallery=1&q=…&team=…&empty=1&diff=1&hide=…&collapse=…
+// Вкладка и открытая ячейка — в пути (это «переходы», их листают кнопки браузера «назад/вперёд»),
+// остальное — в параметрах. hide и collapse повторяются по разу на курс/группу.
+import { EMPTY_FILTERS, type MatrixFilters } from './search';
+
+export type MatrixRoute = {
+  tab?: string;
+  open?: { courseId: string; criterionId: string };
+  image?: number; // индекс скриншота в просмотре открытой ячейки
+  gallery?: boolean; // листаем скриншоты критерия по всем курсам
+  filters: MatrixFilters;
+  hidden?: string[]; // нет в адресе — по ссылке берём скрытые курсы, сохранённые в браузере, в истории — скрытых нет
+  collapsed: string[];
+};
+
+const BASE = ((import.meta as any).env?.BASE_URL as string | undefined) || '/'; // '/competitor-matrix/' из vite.config
+
+// параметр, в котором 404.html передаёт исходный путь (статический хостинг без перенаправлений)
+const REDIRECT_PARAM = 'route';
+
+// вызывается до первого рендера: адрес, пришедший через 404.html, возвращаем на место
+export function restoreRedirectedRoute() {
+  const params = new URLSearchParams(window.location.search);
+  const path = params.get(REDIRECT_PARAM);
+  if (path === null) return;
+  window.history.replaceState(null, '', BASE + path.replace(/^\/+/, '') + window.location.hash);
+}
+
+export function parseRoute(loc: Location = window.location): MatrixRoute {
+  const rest = loc.pathname.startsWith(BASE) ? loc.pathname.slice(BASE.length) : loc.pathname.replace(/^\/+/, '');
+  const [tab, courseId, criterionId] = rest.split('/').filter(Boolean).map((s) => {
+    try { return decodeURIComponent(s); } catch { return s; }
+  });
+  const q = new URLSearchParams(loc.search);
+  const image = Number(q.get('img'));
+  return {
+    tab: tab || undefined,
+    open: courseId && criterionId ? { courseId, criterionId } : undefined,
+    image: Number.isInteger(image) && image > 0 ? image : undefined,
+    gallery: q.get('gallery') === '1' || undefined,
+    filters: {
+      ...EMPTY_FILTERS,
+      query: q.get('q') || '',
+      filledBy: q.get('team') || '',
+      onlyEmpty: q.get('empty') === '1',
+      onlyDiffering: q.get('diff') === '1',
+    },
+    hidden: q.has('hide') ? q.getAll('hide').filter(Boolean) : undefined,
+    collapsed: q.getAll('collapse').filter(Boolean),
+  };
+}
+
+// путь и параметры относительно корня сайта — для history.pushState и ссылки «Скопировать»
+export function formatRoute(r: MatrixRoute): string {
+  const path = [r.tab, ...(r.tab && r.open ? [r.open.courseId, r.open.criterionId] : [])].filter(Boolean).map((s) => encodeURIComponent(s!)).join('/');
+  const q = new URLSearchParams();
+  if (r.open && r.image) q.set('img', String(r.image));
+  if (r.open && r.gallery) q.set('gallery', '1');
+  if (r.filters.query.trim()) q.set('q', r.filters.query);
+  if (r.filters.filledBy) q.set('team', r.filters.filledBy);
+  if (r.filters.onlyEmpty) q.set('empty', '1');
+  if (r.filters.onlyDiffering) q.set('diff', '1');
+  (r.hidden || []).forEach((id) => q.append('hide', id));
+  r.collapsed.forEach((g) => q.append('collapse', g));
+  const search = q.toString();
+  return BASE + path + (search ? `?${search}` : '');
+}
+
+// смена вкладки или открытой ячейки — новый шаг в истории; фильтры, скриншот и прочее — правка текущего.
+// Адрес без вкладки (корень сайта) — ещё не дописанный: его заменяем, а не копим в истории
+export const isSameLocation = (next: MatrixRoute, current: MatrixRoute) =>
+  (!current.tab || next.tab === current.tab) && next.open?.courseId === current.open?.courseId && next.open?.criterionId === current.open?.criterionId;
@@ -0,0 +1,85 @@
+// src/scoring.ts
+// Баллы 0–5 по ячейкам и взвешенные итоги по курсам.
+// Балл берётся из ручной оценки ячейки, иначе выводится из типизированного значения.
+import type { Cell, CellValue, Criterion, WeightProfile } from './api';
+import { valueTypeOf } from './values';
+
+export const MAX_SCORE = 5;
+export const DEFAULT_PROFILE: WeightProfile = { id: 'default', name: 'Все критерии поровну', weights: {} };
+
+// для подсчёта из ячейки нужны только значение и ручной балл
+export type ScoredCell = Pick<Cell, 'value' | 'score'>;
+
+export const weightOf = (profile: WeightProfile, criterionId: string) => profile.weights[criterionId] ?? 1;
+
+// money по умолчанию «дешевле — лучше», number — «больше — лучше»
+export const scoreDirectionOf = (c: Criterion) => c.scoreDirection ?? (valueTypeOf(c) === 'money' ? 'lower' : 'higher');
+
+function numericOf(v?: CellValue): number | undefined {
+  if (v?.kind === 'money') return v.amount;
+  if (v?.kind === 'number') return v.value;
+  return undefined;
+}
+
+// peers — значения того же критерия у всех сравниваемых курсов: цены и числа нормируем между min и max
+export function autoScore(c: Criterion, v: CellValue | undefined, peers: (CellValue | undefined)[]): number | undefined {
+  if (!v) return undefined;
+  if (v.kind === 'boolean') return v.value === 'yes' ? MAX_SCORE : v.value === 'partial' ? MAX_SCORE / 2 : 0;
+  if (v.kind === 'rating') return v.value;
+  const x = numericOf(v);
+  if (x === undefined) return undefined;
+  // цены в разных валютах не сравниваем
+  const nums = peers
+    .filter((p) => p?.kind === v.kind && (v.kind !== 'money' || (p.kind === 'money' && p.currency === v.currency)))
+    .map(numericOf)
+    .filter((n): n is number => n !== undefined);
+  const min = Math.min(...nums);
+  const max = Math.max(...nums);
+  if (!(max > min)) return MAX_SCORE;
+  const t = (x - min) / (max - min);
+  return MAX_SCORE * (scoreDirectionOf(c) === 'lower' ? 1 - t : t);
+}
+
+export function cellScore(c: Criterion, cell: ScoredCell | undefined, peers: (CellValue | undefined)[]): number | undefined {
+  if (cell?.score !== undefined) return cell.score;
+  return autoScore(c, cell?.value, peers);
+}
+
+export type CourseScores = {
+  total?: number;
+  groups: Record<string, number | undefined>;
+};
+
+// взвешенное среднее по критериям, у которых есть балл; нулевой вес — критерий не участвует
+export function computeScores(
+  groups: Record<string, Criterion[]>,
+  courseIds: string[],
+  getCell: (courseId: string, criterionId: string) => ScoredCell | undefined,
+  profile: WeightProfile,
+): Record<string, CourseScores> {
+  const acc: Record<string, { total: [number, number]; groups: Record<string, [number, number]> }> = {};
+  for (const id of courseIds) acc[id] = { total: [0, 0], groups: {} };
+
+  for (const [group, criteria] of Object.entries(groups)) {
+    for (const c of criteria) {
+      const w = weightOf(profile, c.id);
+      if (w <= 0) continue;
+      const peers = courseIds.map((id) => getCell(id, c.id)?.value);
+      for (const id of courseIds) {
+        const s = cellScore(c, getCell(id, c.id), peers);
+        if (s === undefined) continue;
+        const g = (acc[id].groups[group] ??= [0, 0]);
+        g[0] += w * s; g[1] += w;
+        acc[id].total[0] += w * s; acc[id].total[1] += w;
+      }
+    }
+  }
+
+  const avg = ([sum, weight]: [number, number]) => (weight > 0 ? sum / weight : undefined);
+  return Object.fromEntries(courseIds.map((id) => [id, {
+    total: avg(acc[id].total),
+    groups: Object.fromEntries(Object.entries(acc[id].groups).map(([g, v]) => [g, avg(v)])),
+  }]));
+}
+
+export const formatScore = (s?: number) => (s === undefined ? '—' : s.toFixed(1));
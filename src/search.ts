@@ -0,0 +1,57 @@
+// src/search.ts
+// Поиск и фильтры по матрице: нормализация запроса, подсветка совпадений и проверки строк критериев.
+import type { CellValue, Criterion } from './api';
+import { formatValue } from './values';
+
+export type MatrixFilters = {
+  query: string;
+  filledBy: string; // '' — любой
+  onlyEmpty: boolean; // строки, где хотя бы у одного курса пусто
+  onlyDiffering: boolean; // строки, где курсы отличаются
+};
+
+export const EMPTY_FILTERS: MatrixFilters = { query: '', filledBy: '', onlyEmpty: false, onlyDiffering: false };
+
+export const isFilterActive = (f: MatrixFilters) => !!f.query.trim() || !!f.filledBy || f.onlyEmpty || f.onlyDiffering;
+
+// ё и е не различаем, регистр тоже; длина строки сохраняется — по индексам можно подсвечивать исходный текст
+const fold = (s: string) => s.toLowerCase().replace(/ё/g, 'е');
+
+export const matchesQuery = (text: string | undefined, query: string) => {
+  const q = fold(query.trim());
+  return !q || (!!text && fold(text).includes(q));
+};
+
+export type HighlightPart = { text: string; hit: boolean };
+
+export function highlightParts(text: string, query: string): HighlightPart[] {
+  const q = fold(query.trim());
+  if (!q) return [{ text, hit: false }];
+  const folded = fold(text);
+  const parts: HighlightPart[] = [];
+  let from = 0;
+  for (let i = folded.indexOf(q); i >= 0; i = folded.indexOf(q, i + q.length)) {
+    if (i > from) parts.push({ text: text.slice(from, i), hit: false });
+    parts.push({ text: text.slice(i, i + q.length), hit: true });
+    from = i + q.length;
+  }
+  if (from < text.length) parts.push({ text: text.slice(from), hit: false });
+  return parts;
+}
+
+type SearchCell = { text?: string; value?: CellValue; images?: unknown[] };
+
+export const isEmptyCell = (cell?: SearchCell) => !cell || (!cell.text?.trim() && !cell.value && !cell.images?.length);
+
+// сравниваем то, что видно в карточке: значение и текст без лишних пробелов
+const cellFingerprint = (cell?: SearchCell) => fold([formatValue(cell?.value), cell?.text || ''].join('\n').replace(/\s+/g, ' ').trim());
+
+export function rowMatches(criterion: Criterion, cells: (SearchCell | undefined)[], f: MatrixFilters): boolean {
+  if (f.filledBy && (criterion.filledBy || '').trim() !== f.filledBy) return false;
+  if (f.onlyEmpty && !cells.some(isEmptyCell)) return false;
+  if (f.onlyDiffering && new Set(cells.map(cellFingerprint)).size < 2) return false;
+  if (!f.query.trim()) return true;
+  return matchesQuery(criterion.name, f.query)
+    || matchesQuery(criterion.description, f.query)
+    || cells.some((c) => matchesQuery(c?.text, f.query) || matchesQuery(formatValue(c?.value), f.query));
+}
@@ -0,0 +1,69 @@
+// src/snapshots.ts
+// Снимки вкладки: сравнение двух состояний (снимок ↔ снимок или снимок ↔ сейчас) — какие ячейки поменялись
+// и сводка изменений по курсам.
+import type { Cell, MatrixData, Snapshot } from './api';
+import { formatValue } from './values';
+import { isEmptyCell } from './search';
+
+// «сейчас» в выборе снимков — живые данные вкладки
+export const CURRENT_STATE = '__current__';
+
+export type CellChange = 'added' | 'removed' | 'changed';
+
+export type CourseChanges = {
+  courseId: string;
+  name: string;
+  status: 'added' | 'removed' | 'kept'; // курс появился, пропал или был в обоих состояниях
+  added: number;
+  removed: number;
+  changed: number;
+};
+
+export type MatrixDiff = {
+  cells: Map<string, CellChange>; // ключ — diffKey
+  courses: CourseChanges[];
+  total: number;
+};
+
+export const diffKey = (courseId: string, criterionId: string) => `${courseId}|${criterionId}`;
+
+export const defaultSnapshotName = (date = new Date()) => `Снимок ${date.toLocaleDateString('ru-RU')}`;
+
+export const snapshotLabel = (s: Snapshot) => `${s.name} · ${new Date(s.createdAt).toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' })}`;
+
+// ревизия и автор не в счёт: сравниваем только то, что видно в ячейке
+const sameCell = (a: Cell, b: Cell) =>
+  (a.text || '').trim() === (b.text || '').trim()
+  && formatValue(a.value) === formatValue(b.value)
+  && JSON.stringify(a.images || []) === JSON.stringify(b.images || [])
+  && a.score === b.score;
+
+export function diffMatrices(before: MatrixData, after: MatrixData): MatrixDiff {
+  const index = (m: MatrixData) => new Map(m.cells.filter((c) => !isEmptyCell(c)).map((c) => [diffKey(c.courseId, c.criterionId), c]));
+  const a = index(before);
+  const b = index(after);
+  const cells = new Map<string, CellChange>();
+  for (const [key, cell] of b) {
+    const prev = a.get(key);
+    if (!prev) cells.set(key, 'added');
+    else if (!sameCell(prev, cell)) cells.set(key, 'changed');
+  }
+  for (const key of a.keys()) if (!b.has(key)) cells.set(key, 'removed');
+
+  const beforeIds = new Set(before.courses.map((c) => c.id));
+  const afterIds = new Set(after.courses.map((c) => c.id));
+  const courses: CourseChanges[] = [...after.courses, ...before.courses.filter((c) => !afterIds.has(c.id))].map((c) => ({
+    courseId: c.id,
+    name: c.name,
+    status: !beforeIds.has(c.id) ? 'added' : !afterIds.has(c.id) ? 'removed' : 'kept',
+    added: 0,
+    removed: 0,
+    changed: 0,
+  }));
+  const byId = new Map(courses.map((c) => [c.courseId, c]));
+  for (const [key, change] of cells) {
+    const summary = byId.get(key.slice(0, key.indexOf('|')));
+    if (summary) summary[change]++;
+  }
+  return { cells, courses, total: cells.size };
+}
@@ -0,0 +1,243 @@
+// src/sources/appsScript.ts
+// Адаптер Google Sheets + Apps Script WebApp.
+// Индекс вкладок читаем через gviz (публичный лист __tabs), ячейки и запись — через WebApp.
+import { AuthError, ConflictError, ForbiddenError, type AuthProvider, type CellHistoryEntry, type Competitor, type MatrixData, type MatrixDataSource, type Snapshot, type Tab } from '../api';
+import { normalizeCellImages, normalizeMatrixImages } from '../matrixOps';
+
+const SHEET_ID = '1F005rrzv-PK78XgrYxI6UvoDm3n72LCU6CTrKf-zx-I'; // Google Sheet
+const TABS_INDEX_SHEET = '__tabs'; // индекс вкладок (колонки: sheet, label[, id])
+
+type SheetRow = Record<string, string>;
+
+type Response<T> = {
+  ok: boolean;
+  data: T;
+  error?: string;
+};
+
+function must(url?: string) {
+  if (!url) throw new Error('VITE_GAS_URL не задан. Добавь его в .env');
+  return url;
+}
+
+// токен сессии идёт в каждом запросе; без него или с просроченным WebApp отвечает { ok: false, error: 'UNAUTHORIZED' }
+export type AppsScriptAuth = {
+  token: () => string | undefined;
+  onUnauthorized: () => void;
+};
+
+const isUnauthorized = (json: any) => !!(json && typeof json.error === 'string' && json.error.toUpperCase().includes('UNAUTHORIZED'));
+
+// base64 без префикса data:…;base64, — так файл уходит в JSON-теле POST
+const toBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result).split(',')[1] || '');
+    r.onerror = () => reject(r.error);
+    r.readAsDataURL(blob);
+  });
+
+function gvizUrl(sheet: string) {
+  return `https://docs.google.com/spreadsheets/d/${SHEET_ID}/gviz/tq?tqx=out:json&sheet=${encodeURIComponent(sheet)}`;
+}
+
+async function fetchWithTimeout(resource: string, opts: RequestInit = {}, timeoutMs = 12000) {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeoutMs);
+  try { return await fetch(resource, { ...opts, signal: controller.signal }); }
+  finally { clearTimeout(id); }
+}
+
+async function fetchGViz(sheet: string): Promise<SheetRow[]> {
+  const res = await fetchWithTimeout(gvizUrl(sheet), { credentials: 'omit' });
+  if (!res.ok) throw new Error(`Failed to fetch sheet ${sheet}: ${res.status}`);
+  const txt = await res.text();
+  const start = txt.indexOf('{');
+  const end = txt.lastIndexOf('}');
+  if (start === -1 || end === -1) throw new Error('GViz: JSON not found');
+  const json = JSON.parse(txt.slice(start, end + 1));
+  const rows: any[] = json.table?.rows || [];
+  const matrix: string[][] = rows.map((r: any) => (r.c || []).map((c: any) => (c && (c.f ?? c.v)) ?? ''));
+  const header = (matrix[0] || []).map((h) => String(h).trim());
+  const dataRows = matrix.slice(1).filter((r) => r.some((v) => String(v).trim().length > 0));
+  return dataRows.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i] ?? '']) as [string, string][]));
+}
+
+function rowsToTabs(rows: SheetRow[]): Tab[] {
+  const out: Tab[] = [];
+  for (const r of rows) {
+    const sheet = String(r.sheet || '').trim();
+    const label = String(r.label || sheet || '').trim();
+    if (!sheet || !label) continue;
+    const id = String((r as any).id || sheet);
+    out.push({ id, label, sheet });
+  }
+  return out;
+}
+
+async function postJson(url: string, body: Record<string, unknown>): Promise<any> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/plain' }, // под parseBody() в Apps Script
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`POST ${res.status}`);
+  try { return JSON.parse(await res.text()); } catch { return null; }
+}
+
+export function createAppsScriptDataSource(url?: string, auth?: AppsScriptAuth): MatrixDataSource {
+  // без сессии не ходим вовсе; отказ по токену — сессия кончилась, просим войти заново
+  function token() {
+    const t = auth?.token();
+    if (auth && !t) throw new Error('UNAUTHORIZED');
+    return t;
+  }
+
+  // { ok: false, error: 'FORBIDDEN', message } — вошли, но прав не хватает: сессию не трогаем, показываем причину
+  function rejected(json: any) {
+    if (json?.ok === false && String(json.error).toUpperCase() === 'FORBIDDEN') throw new ForbiddenError(json.message || undefined);
+    if (!isUnauthorized(json)) return;
+    auth?.onUnauthorized();
+    throw new Error('UNAUTHORIZED');
+  }
+
+  // updatedBy WebApp берёт из токена, присланное клиентом — только для старых скриптов
+  async function post(body: Record<string, unknown>): Promise<any> {
+    const json = await postJson(must(url), { ...body, token: token() });
+    rejected(json);
+    return json;
+  }
+
+  async function get<T>(params: Record<string, string>): Promise<T> {
+    const t = token();
+    const r = await fetch(`${must(url)}?${new URLSearchParams(t ? { ...params, token: t } : params)}`);
+    if (!r.ok) throw new Error(`GET ${r.status}`);
+    const json: Response<T> = await r.json();
+    rejected(json);
+    if (!json.ok) throw new Error(json.error || `${params.action} error`);
+    return json.data;
+  }
+
+  return {
+    kind: 'gas',
+
+    async listTabs() {
+      return rowsToTabs(await fetchGViz(TABS_INDEX_SHEET));
+    },
+
+    // тянем данные напрямую из Apps Script, минуя gviz-кэш
+    async loadMatrix(tab) {
+      return normalizeMatrixImages(await get<MatrixData>({ action: 'cells', tab }));
+    },
+
+    async getCellHistory({ tab, courseId, criterionId }) {
+      return (await get<CellHistoryEntry[]>({ action: 'history', tab, courseId, criterionId })).map(normalizeCellImages);
+    },
+
+    // ответ: { ok: true, cell: { revision, updatedAt, updatedBy } } или { ok: false, error: 'CONFLICT', current: Cell }
+    async upsertCell(payload) {
+      const json = await post({ action: 'upsertCell', ...payload });
+      if (json && json.ok === false && String(json.error).toUpperCase() === 'CONFLICT') throw new ConflictError(normalizeCellImages(json.current));
+      return json?.cell;
+    },
+
+    async addCourse(payload) {
+      await post({ action: 'addCourse', ...payload });
+    },
+
+    async updateCourse(payload) {
+      await post({ action: 'updateCourse', ...payload });
+    },
+
+    async reorderCourses(payload) {
+      await post({ action: 'reorderCourses', ...payload });
+    },
+
+    async deleteCourse(payload) {
+      await post({ action: 'deleteCourse', ...payload });
+    },
+
+    async addCriterion(payload) {
+      await post({ action: 'addCriterion', ...payload });
+    },
+
+    async upsertCriterion(payload) {
+      await post({ action: 'upsertcriterion', ...payload });
+    },
+
+    async reorderCriteria(payload) {
+      await post({ action: 'reorderCriteria', ...payload });
+    },
+
+    async setGroups(payload) {
+      await post({ action: 'setGroups', ...payload });
+    },
+
+    async renameGroup(payload) {
+      await post({ action: 'renameGroup', ...payload });
+    },
+
+    async saveWeightProfiles(payload) {
+      await post({ action: 'saveWeightProfiles', ...payload });
+    },
+
+    async saveAccess(payload) {
+      await post({ action: 'saveAccess', ...payload });
+    },
+
+    async listCompetitors() {
+      return get<Competitor[]>({ action: 'competitors' });
+    },
+
+    async upsertCompetitor(payload) {
+      await post({ action: 'upsertCompetitor', ...payload });
+    },
+
+    async listSnapshots(tab) {
+      return get<Snapshot[]>({ action: 'snapshots', tab });
+    },
+
+    async loadSnapshot({ tab, snapshotId }) {
+      return normalizeMatrixImages(await get<MatrixData>({ action: 'snapshot', tab, snapshotId }));
+    },
+
+    // ответ: { ok: true, snapshot: Snapshot }
+    async createSnapshot(payload) {
+      const json = await post({ action: 'createSnapshot', ...payload });
+      if (!json?.ok || !json.snapshot) throw new Error(json?.error || 'createSnapshot error');
+      return json.snapshot;
+    },
+
+    async deleteSnapshot(payload) {
+      await post({ action: 'deleteSnapshot', ...payload });
+    },
+
+    // Apps Script кладёт файл в папку на Drive с доступом по ссылке; ответ: { ok: true, url }
+    async uploadImage({ file, ...rest }) {
+      const json = await post({ action: 'uploadImage', ...rest, mimeType: file.type, data: await toBase64(file) });
+      if (!json?.ok || !json.url) throw new Error(json?.error || 'uploadImage error');
+      return json.url;
+    },
+  };
+}
+
+// Вход через WebApp: пароль проверяет сервер, он же подписывает токен секретом из свойств скрипта.
+// login → { ok: true, session: { token, user, expiresAt } } или { ok: false, error: 'INVALID_CREDENTIALS' }
+export function createAppsScriptAuthProvider(url?: string): AuthProvider {
+  return {
+    kind: 'gas',
+
+    async login({ login, password }) {
+      const json = await postJson(must(url), { action: 'login', login, password });
+      if (json?.ok === false && String(json.error).toUpperCase() === 'INVALID_CREDENTIALS') throw new AuthError();
+      const s = json?.session;
+      if (!json?.ok || !s?.token || !s.user) throw new Error(json?.error || 'login error');
+      // expiresAt сервер может прислать ISO-строкой
+      return { token: s.token, user: s.user, expiresAt: typeof s.expiresAt === 'number' ? s.expiresAt : Date.parse(s.expiresAt) };
+    },
+
+    async logout({ token }) {
+      await postJson(must(url), { action: 'logout', token });
+    },
+  };
+}
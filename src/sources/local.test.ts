@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictError, ForbiddenError, type MatrixData, type User } from '../api';
+import { createMemoryStore } from '../idb';
+import { createLocalDataSource, type LocalSeed } from './local';
+
+const matrix: MatrixData = {
+  courses: [{ id: 'c1', name: 'Курс 1' }],
+  criteria: [
+    { id: 'k1', name: 'Цена', group: 'Продукт' },
+    { id: 'k2', name: 'Охват', group: 'Маркетинг', filledBy: 'Маркетинг', filledByOnly: true },
+  ],
+  cells: [],
+  access: {
+    defaultRole: 'viewer',
+    members: [
+      { userId: 'ed', role: 'editor' },
+      { userId: 'boss', role: 'admin' },
+    ],
+  },
+};
+const seed: LocalSeed = { tabs: [{ id: 't', label: 'Тест', sheet: 't' }], matrices: { t: matrix } };
+
+function setup(user: User | null = { id: 'ed', name: 'Редактор' }) {
+  let current = user;
+  const source = createLocalDataSource({ store: createMemoryStore(), seed, user: () => current });
+  return { source, login: (u: User | null) => { current = u; } };
+}
+
+const cell = { tab: 't', courseId: 'c1', criterionId: 'k1', text: 'Бесплатно', images: [] };
+
+describe('локальный бэкенд', () => {
+  it('одинаково отвечает на одни и те же данные', async () => {
+    const { source } = setup();
+    expect(await source.listTabs()).toEqual(seed.tabs);
+    expect(await source.loadMatrix('t')).toEqual(matrix);
+    await expect(source.loadMatrix('нет такого')).rejects.toThrow();
+  });
+
+  it('нумерует версии ячейки и пишет автора из сессии, а не из запроса', async () => {
+    const { source } = setup();
+    const v1 = await source.upsertCell({ ...cell, updatedBy: 'Кто-то другой' });
+    expect(v1).toMatchObject({ revision: 1, updatedBy: 'Редактор' });
+    const v2 = await source.upsertCell({ ...cell, text: 'Платно', baseRevision: 1 });
+    expect(v2).toMatchObject({ revision: 2 });
+    const saved = (await source.loadMatrix('t')).cells[0];
+    expect(saved).toMatchObject({ text: 'Платно', revision: 2, updatedBy: 'Редактор' });
+    expect((await source.getCellHistory({ tab: 't', courseId: 'c1', criterionId: 'k1' })).map((h) => h.text)).toEqual(['Бесплатно', 'Платно']);
+  });
+
+  it('отклоняет запись по устаревшей версии', async () => {
+    const { source } = setup();
+    await source.upsertCell(cell);
+    await source.upsertCell({ ...cell, text: 'второй', baseRevision: 1 });
+    const err = await source.upsertCell({ ...cell, text: 'третий', baseRevision: 1 }).catch((e) => e);
+    expect(err).toBeInstanceOf(ConflictError);
+    expect(err.current).toMatchObject({ text: 'второй', revision: 2 });
+  });
+
+  it('проверяет права как настоящий сервер', async () => {
+    const { source, login } = setup();
+    await expect(source.upsertCell({ ...cell, criterionId: 'k2' })).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(source.saveAccess({ tab: 't', access: { defaultRole: 'editor', members: [] } })).rejects.toBeInstanceOf(ForbiddenError);
+    login({ id: 'guest', name: 'Гость' });
+    await expect(source.upsertCell(cell)).rejects.toBeInstanceOf(ForbiddenError);
+    login({ id: 'boss', name: 'Админ' });
+    await expect(source.upsertCell({ ...cell, criterionId: 'k2' })).resolves.toMatchObject({ revision: 1 });
+  });
+});
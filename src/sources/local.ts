@@ -0,0 +1,291 @@
+// src/sources/local.ts
+// Локальный бэкенд: матрицы лежат в IndexedDB, при первом запуске — из demo-matrix.json.
+// Работает без Google-аккаунта и сети; с createMemoryStore() — детерминированный бэкенд для тестов.
+import { AuthError, ConflictError, ForbiddenError, type AuthProvider, type Cell, type CellHistoryEntry, type CellVersion, type Competitor, type MatrixData, type MatrixDataSource, type Snapshot, type Tab, type User } from '../api';
+import { canAdmin, cellEditDenial, roleOf } from '../access';
+import { createIdbStore, type KvStore } from '../idb';
+import { applyCriterionUpsert, applyGroupRename, normalizeCellImages, normalizeMatrixImages, sortByOrder } from '../matrixOps';
+import demo from './demo-matrix.json';
+
+// dev-сервер Vite сохраняет загрузки на диск (плагин localUploads в vite.config.ts)
+const UPLOADS_URL = `${(import.meta as any).env?.BASE_URL ?? '/'}__uploads`;
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result));
+    r.onerror = () => reject(r.error);
+    r.readAsDataURL(blob);
+  });
+
+export type LocalSeed = {
+  tabs: Tab[];
+  matrices: Record<string, MatrixData>; // ключ — Tab.sheet
+};
+
+const TABS_KEY = 'tabs';
+const COMPETITORS_KEY = 'competitors';
+const matrixKey = (tab: string) => `matrix:${tab}`;
+const snapshotsKey = (tab: string) => `snapshots:${tab}`;
+const snapshotKey = (tab: string, id: string) => `snapshot:${tab}|${id}`;
+const historyKey = (tab: string, courseId: string, criterionId: string) => `history:${tab}|${courseId}|${criterionId}`;
+
+// user — кто сейчас вошёл; без него (тесты) права не проверяются
+export function createLocalDataSource(opts: { store?: KvStore; seed?: LocalSeed; user?: () => User | null } = {}): MatrixDataSource {
+  const store = opts.store ?? createIdbStore('cmatrix-local');
+  const seed = opts.seed ?? (demo as LocalSeed);
+
+  async function readMatrix(tab: string): Promise<MatrixData> {
+    const saved = await store.get<MatrixData>(matrixKey(tab));
+    if (saved) return normalizeMatrixImages(saved);
+    const initial = seed.matrices[tab];
+    if (!initial) throw new Error(`Лист ${tab} не найден в локальных данных`);
+    return normalizeMatrixImages(structuredClone(initial));
+  }
+
+  async function updateMatrix(tab: string, fn: (m: MatrixData) => MatrixData) {
+    await store.set(matrixKey(tab), fn(await readMatrix(tab)));
+  }
+
+  // права проверяем как настоящий сервер — по тем же правилам, что прячут кнопки в интерфейсе
+  async function authorize(tab: string, need: 'edit' | 'admin', criterionId?: string) {
+    if (!opts.user) return;
+    const m = await readMatrix(tab);
+    const userId = opts.user()?.id;
+    if (need === 'admin') {
+      if (!canAdmin(roleOf(m.access, userId))) throw new ForbiddenError('Менять критерии, группы, веса и доступ может только администратор вкладки');
+      return;
+    }
+    const denial = cellEditDenial(m.access, userId, criterionId ? m.criteria.find((c) => c.id === criterionId) : undefined);
+    if (denial) throw new ForbiddenError(denial);
+  }
+
+  return {
+    kind: 'local',
+
+    async listTabs() {
+      return (await store.get<Tab[]>(TABS_KEY)) ?? seed.tabs;
+    },
+
+    async loadMatrix(tab) {
+      return readMatrix(tab);
+    },
+
+    async upsertCell({ tab, courseId, criterionId, text, images, value, score, baseRevision }) {
+      await authorize(tab, 'edit', criterionId);
+      let version: CellVersion = {};
+      let before: Cell | undefined;
+      await updateMatrix(tab, (m) => {
+        const prev = m.cells.find((c) => c.courseId === courseId && c.criterionId === criterionId);
+        before = prev;
+        if (prev && baseRevision !== undefined && (prev.revision ?? 0) !== baseRevision) throw new ConflictError(prev);
+        // автора берём из сессии, как WebApp из токена; присланное клиентом не учитываем
+        version = { revision: (prev?.revision ?? 0) + 1, updatedAt: new Date().toISOString(), updatedBy: opts.user?.()?.name };
+        return {
+          ...m,
+          cells: [
+            ...m.cells.filter((c) => c !== prev),
+            { courseId, criterionId, text: text || undefined, images, value, score, ...version },
+          ],
+        };
+      });
+      const hk = historyKey(tab, courseId, criterionId);
+      // у ячеек из seed журнала нет — первой записью кладём исходное состояние
+      const history = (await store.get<CellHistoryEntry[]>(hk))
+        ?? (before ? [{ revision: before.revision, updatedAt: before.updatedAt, updatedBy: before.updatedBy, text: before.text, images: before.images || [], value: before.value, score: before.score }] : []);
+      await store.set(hk, [...history, { ...version, text: text || undefined, images, value, score }]);
+      return version;
+    },
+
+    async getCellHistory({ tab, courseId, criterionId }) {
+      return ((await store.get<CellHistoryEntry[]>(historyKey(tab, courseId, criterionId))) ?? []).map(normalizeCellImages);
+    },
+
+    async addCourse({ tab, courseId, name }) {
+      await authorize(tab, 'edit');
+      await updateMatrix(tab, (m) => m.courses.some((c) => c.id === courseId) ? m : ({
+        ...m,
+        courses: [...m.courses, { id: courseId, name: name || `Курс ${m.courses.length + 1}` }],
+      }));
+    },
+
+    async updateCourse({ tab, course }) {
+      await authorize(tab, 'edit');
+      await updateMatrix(tab, (m) => ({ ...m, courses: m.courses.map((c) => (c.id === course.id ? course : c)) }));
+    },
+
+    async reorderCourses({ tab, order }) {
+      await authorize(tab, 'edit');
+      await updateMatrix(tab, (m) => ({ ...m, courses: sortByOrder(m.courses, order) }));
+    },
+
+    async deleteCourse({ tab, courseId }) {
+      await authorize(tab, 'edit');
+      await updateMatrix(tab, (m) => ({
+        ...m,
+        courses: m.courses.filter((c) => c.id !== courseId),
+        cells: m.cells.filter((c) => c.courseId !== courseId),
+      }));
+    },
+
+    async addCriterion({ tab, criterion }) {
+      await authorize(tab, 'admin');
+      await updateMatrix(tab, (m) => ({
+        ...m,
+        criteria: [...m.criteria.filter((c) => c.id !== criterion.id), criterion],
+      }));
+    },
+
+    async upsertCriterion(payload) {
+      await authorize(payload.tab, 'admin');
+      await updateMatrix(payload.tab, (m) => applyCriterionUpsert(m, payload));
+    },
+
+    async reorderCriteria({ tab, order }) {
+      await authorize(tab, 'admin');
+      await updateMatrix(tab, (m) => ({ ...m, criteria: sortByOrder(m.criteria, order) }));
+    },
+
+    async setGroups({ tab, groups }) {
+      await authorize(tab, 'admin');
+      await updateMatrix(tab, (m) => ({ ...m, groups }));
+    },
+
+    async renameGroup({ tab, from, to }) {
+      await authorize(tab, 'admin');
+      await updateMatrix(tab, (m) => applyGroupRename(m, from, to));
+    },
+
+    async saveWeightProfiles({ tab, profiles }) {
+      await authorize(tab, 'admin');
+      await updateMatrix(tab, (m) => ({ ...m, weightProfiles: profiles }));
+    },
+
+    async saveAccess({ tab, access }) {
+      await authorize(tab, 'admin');
+      await updateMatrix(tab, (m) => ({ ...m, access }));
+    },
+
+    async listCompetitors() {
+      return (await store.get<Competitor[]>(COMPETITORS_KEY)) ?? [];
+    },
+
+    async upsertCompetitor({ tab, competitor }) {
+      await authorize(tab, 'edit');
+      const list = (await store.get<Competitor[]>(COMPETITORS_KEY)) ?? [];
+      const exists = list.some((c) => c.id === competitor.id);
+      await store.set(COMPETITORS_KEY, exists ? list.map((c) => (c.id === competitor.id ? competitor : c)) : [...list, competitor]);
+    },
+
+    async listSnapshots(tab) {
+      return (await store.get<Snapshot[]>(snapshotsKey(tab))) ?? [];
+    },
+
+    async loadSnapshot({ tab, snapshotId }) {
+      const data = await store.get<MatrixData>(snapshotKey(tab, snapshotId));
+      if (!data) throw new Error(`Снимок ${snapshotId} не найден`);
+      return normalizeMatrixImages(data);
+    },
+
+    async createSnapshot({ tab, name, createdBy }) {
+      await authorize(tab, 'edit');
+      const createdAt = new Date().toISOString();
+      const snapshot: Snapshot = { id: `s-${Date.parse(createdAt)}`, name, createdAt, createdBy };
+      await store.set(snapshotKey(tab, snapshot.id), await readMatrix(tab));
+      await store.set(snapshotsKey(tab), [snapshot, ...((await store.get<Snapshot[]>(snapshotsKey(tab))) ?? [])]);
+      return snapshot;
+    },
+
+    // без dev-сервера (статическая сборка, тесты) картинка остаётся в ячейке как data URI
+    async uploadImage({ tab, criterionId, file, name }) {
+      await authorize(tab, 'edit', criterionId);
+      try {
+        const res = await fetch(UPLOADS_URL, { method: 'POST', headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(name) }, body: file });
+        if (res.ok) return (await res.json()).url;
+      } catch { /* сервера нет */ }
+      return readAsDataUrl(file);
+    },
+
+    async deleteSnapshot({ tab, snapshotId }) {
+      await authorize(tab, 'admin');
+      await store.del(snapshotKey(tab, snapshotId));
+      await store.set(snapshotsKey(tab), ((await store.get<Snapshot[]>(snapshotsKey(tab))) ?? []).filter((s) => s.id !== snapshotId));
+    },
+  };
+}
+
+// --- Локальный вход: заглушка сервера авторизации для разработки и демо ---
+// Учётная запись заводится при первом входе; пароль хранится как PBKDF2-хэш, токен подписан HMAC
+// случайным секретом этого браузера. Защищает от случайного автора в updatedBy, а не от владельца устройства.
+
+const AUTH_SECRET_KEY = 'secret';
+const userKey = (login: string) => `user:${login}`;
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+type LocalUser = { id: string; name: string; salt: string; hash: string };
+
+const utf8 = new TextEncoder();
+const b64url = (bytes: Uint8Array) => btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromB64url = (s: string) => Uint8Array.from(atob(s.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+const randomB64url = (size: number) => b64url(crypto.getRandomValues(new Uint8Array(size)));
+
+async function hashPassword(password: string, salt: string) {
+  const key = await crypto.subtle.importKey('raw', utf8.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: fromB64url(salt), iterations: 100_000 }, key, 256);
+  return b64url(new Uint8Array(bits));
+}
+
+async function hmac(secret: string, data: string) {
+  const key = await crypto.subtle.importKey('raw', fromB64url(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return b64url(new Uint8Array(await crypto.subtle.sign('HMAC', key, utf8.encode(data))));
+}
+
+export function createLocalAuthProvider(opts: { store?: KvStore; ttlMs?: number } = {}): AuthProvider {
+  const store = opts.store ?? createIdbStore('cmatrix-auth');
+  const ttl = opts.ttlMs ?? SESSION_TTL_MS;
+
+  async function secret() {
+    let s = await store.get<string>(AUTH_SECRET_KEY);
+    if (!s) await store.set(AUTH_SECRET_KEY, (s = randomB64url(32)));
+    return s;
+  }
+
+  // токен — base64url(JSON).подпись, как у JWT, только без заголовка
+  async function sign(claims: { sub: string; name: string; exp: number }) {
+    const body = b64url(utf8.encode(JSON.stringify(claims)));
+    return `${body}.${await hmac(await secret(), body)}`;
+  }
+
+  return {
+    kind: 'local',
+
+    async login({ login, password }) {
+      const id = login.trim().toLowerCase();
+      if (!id || !password) throw new AuthError('Введите логин и пароль');
+      let user = await store.get<LocalUser>(userKey(id));
+      if (!user) {
+        const salt = randomB64url(16);
+        user = { id, name: login.trim(), salt, hash: await hashPassword(password, salt) };
+        await store.set(userKey(id), user);
+      } else if ((await hashPassword(password, user.salt)) !== user.hash) {
+        throw new AuthError();
+      }
+      const expiresAt = Date.now() + ttl;
+      return { token: await sign({ sub: user.id, name: user.name, exp: expiresAt }), user: { id: user.id, name: user.name }, expiresAt };
+    },
+
+    async logout() {
+      // токен живёт только в браузере — забыть его достаточно
+    },
+
+    async verify(token) {
+      const [body, signature] = token.split('.');
+      if (!body || !signature || signature !== (await hmac(await secret(), body))) return false;
+      try {
+        return JSON.parse(new TextDecoder().decode(fromB64url(body))).exp > Date.now();
+      } catch {
+        return false;
+      }
+    },
+  };
+}
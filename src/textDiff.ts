@@ -0,0 +1,47 @@
+// src/textDiff.ts
+// Пословный diff (LCS по словам и пробелам) — для истории ячеек и сравнения версий.
+
+export type DiffPart = { type: 'same' | 'add' | 'del'; text: string };
+
+const tokenize = (s: string) => s.split(/(\s+)/).filter(Boolean);
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // lcs[i][j] — длина общей подпоследовательности для a[i..] и b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const out: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = out[out.length - 1];
+    if (last && last.type === type) last.text += text;
+    else out.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push('del', a[i++]);
+    else push('add', b[j++]);
+  }
+  while (i < a.length) push('del', a[i++]);
+  while (j < b.length) push('add', b[j++]);
+  return out;
+}
+
+const squash = (s: string) => s.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// доля совпавших символов (без пробелов) от длины большей строки: 1 — одно и то же, 0 — ничего общего
+export function similarity(before: string, after: string): number {
+  const a = squash(before);
+  const b = squash(after);
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const len = (s: string) => s.replace(/\s/g, '').length;
+  const same = diffWords(a, b).filter((p) => p.type === 'same').reduce((n, p) => n + len(p.text), 0);
+  return same / Math.max(len(a), len(b));
+}
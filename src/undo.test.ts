@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_UNDO, UNDO_LIMIT, contentOf, dropStep, expectedBefore, recordStep, redoStep, sameContent, undoStep, type CellEdit } from './undo';
+
+const edit = (before: string, after: string, criterionId = 'k1'): CellEdit => ({
+  courseId: 'c1',
+  criterionId,
+  before: { text: before, images: [] },
+  after: { text: after, images: [] },
+});
+
+describe('undo', () => {
+  it('правки без изменений не записывает', () => {
+    expect(recordStep(EMPTY_UNDO, [edit('a', 'a')])).toBe(EMPTY_UNDO);
+    expect(recordStep(EMPTY_UNDO, [edit('a', 'a'), edit('a', 'b', 'k2')]).past).toEqual([[edit('a', 'b', 'k2')]]);
+  });
+
+  it('отмена и повтор перекладывают шаг между стеками', () => {
+    const s1 = recordStep(EMPTY_UNDO, [edit('a', 'b')]);
+    const undone = undoStep(s1)!;
+    expect(undone.step).toEqual([edit('a', 'b')]);
+    expect(undone.state).toEqual({ past: [], future: [[edit('a', 'b')]] });
+    const redone = redoStep(undone.state)!;
+    expect(redone.state).toEqual(s1);
+    expect(undoStep(EMPTY_UNDO)).toBeNull();
+    expect(redoStep(EMPTY_UNDO)).toBeNull();
+  });
+
+  it('новый шаг обрезает «вперёд»', () => {
+    const undone = undoStep(recordStep(EMPTY_UNDO, [edit('a', 'b')]))!.state;
+    expect(recordStep(undone, [edit('a', 'c')]).future).toEqual([]);
+  });
+
+  it('хранит не больше UNDO_LIMIT шагов', () => {
+    let s = EMPTY_UNDO;
+    for (let i = 0; i < UNDO_LIMIT + 5; i++) s = recordStep(s, [edit(String(i), String(i + 1))]);
+    expect(s.past).toHaveLength(UNDO_LIMIT);
+    expect(s.past[0]).toEqual([edit('5', '6')]);
+  });
+
+  it('ожидаемое содержимое и выбрасывание устаревшего шага', () => {
+    const e = edit('a', 'b');
+    expect(expectedBefore(e, 'undo')).toBe(e.after);
+    expect(expectedBefore(e, 'redo')).toBe(e.before);
+    const s = recordStep(recordStep(EMPTY_UNDO, [edit('x', 'y')]), [e]);
+    expect(dropStep(s, 'undo').past).toEqual([[edit('x', 'y')]]);
+    expect(sameContent(contentOf({ courseId: 'c1', criterionId: 'k1', text: 'b' }), e.after)).toBe(true);
+  });
+});
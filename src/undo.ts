@@ -0,0 +1,48 @@
+// src/undo.ts
+// Отмена и повтор правок ячеек за сессию. Шаг — одна или несколько правок «было → стало» (импорт — один шаг).
+// Отмена — обычная запись прежнего содержимого, поэтому в журнале ячейки она появляется новой версией.
+import type { Cell, CellImage, CellValue } from './api';
+
+export const UNDO_LIMIT = 100; // старые шаги выбрасываем
+
+export type CellContent = { text: string; images: CellImage[]; value?: CellValue; score?: number };
+
+export type CellEdit = { courseId: string; criterionId: string; before: CellContent; after: CellContent };
+
+export type UndoState = { past: CellEdit[][]; future: CellEdit[][] };
+
+export const EMPTY_UNDO: UndoState = { past: [], future: [] };
+
+export const contentOf = (cell?: Cell): CellContent => ({ text: cell?.text || '', images: cell?.images || [], value: cell?.value, score: cell?.score });
+
+export const sameContent = (a: CellContent, b: CellContent) => JSON.stringify(a) === JSON.stringify(b);
+
+// новый шаг обрезает «вперёд», как в любом редакторе; правки без изменений не копим
+export function recordStep(state: UndoState, edits: CellEdit[]): UndoState {
+  const step = edits.filter((e) => !sameContent(e.before, e.after));
+  if (!step.length) return state;
+  return { past: [...state.past, step].slice(-UNDO_LIMIT), future: [] };
+}
+
+// шаг для отмены и состояние после неё; что записать — before каждой правки (в обратном порядке)
+export function undoStep(state: UndoState): { step: CellEdit[]; state: UndoState } | null {
+  const step = state.past[state.past.length - 1];
+  if (!step) return null;
+  return { step, state: { past: state.past.slice(0, -1), future: [...state.future, step] } };
+}
+
+// шаг для повтора; что записать — after каждой правки
+export function redoStep(state: UndoState): { step: CellEdit[]; state: UndoState } | null {
+  const step = state.future[state.future.length - 1];
+  if (!step) return null;
+  return { step, state: { past: [...state.past, step], future: state.future.slice(0, -1) } };
+}
+
+// что должно лежать в ячейке, чтобы шаг можно было применить: не совпало — ячейку изменили после шага
+// (коллега, импорт, правка в обход стека), и запись молча затёрла бы это изменение
+export const expectedBefore = (e: CellEdit, direction: 'undo' | 'redo') => (direction === 'undo' ? e.after : e.before);
+
+// устаревший шаг выбрасываем, иначе он загородил бы более старые
+export function dropStep(state: UndoState, direction: 'undo' | 'redo'): UndoState {
+  return direction === 'undo' ? { ...state, past: state.past.slice(0, -1) } : { ...state, future: state.future.slice(0, -1) };
+}
@@ -0,0 +1,118 @@
+// src/values.ts
+// Типизированные значения ячеек: подписи, форматирование и проверка перед записью.
+import type { CellValue, Criterion, ValueType } from './api';
+
+export const VALUE_TYPE_LABELS: Record<ValueType, string> = {
+  text: 'Текст',
+  boolean: 'Да / нет / частично',
+  rating: 'Оценка 1–5',
+  money: 'Цена',
+  number: 'Число с единицей',
+  select: 'Один вариант из списка',
+  multiselect: 'Несколько вариантов из списка',
+};
+
+export const BOOLEAN_LABELS: Record<'yes' | 'no' | 'partial', string> = {
+  yes: 'Да',
+  no: 'Нет',
+  partial: 'Частично',
+};
+
+export const DEFAULT_CURRENCY = 'RUB';
+
+export const valueTypeOf = (c?: Criterion): ValueType => c?.valueType ?? 'text';
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('ru-RU', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    // неизвестный код валюты — Intl бросает RangeError
+    return `${amount.toLocaleString('ru-RU')} ${currency}`;
+  }
+}
+
+// Значение одной строкой — для экспорта, поиска и сравнения
+export function formatValue(v?: CellValue): string {
+  if (!v) return '';
+  switch (v.kind) {
+    case 'boolean': return BOOLEAN_LABELS[v.value];
+    case 'rating': return `${v.value}/5`;
+    case 'money': return formatMoney(v.amount, v.currency);
+    case 'number': return [v.value.toLocaleString('ru-RU'), v.unit].filter(Boolean).join(' ');
+    case 'select': return v.values.join(', ');
+  }
+}
+
+// null — всё в порядке, иначе текст ошибки для пользователя
+export function validateValue(c: Criterion | undefined, v?: CellValue): string | null {
+  const type = valueTypeOf(c);
+  if (!v || type === 'text') return null;
+  const expected = type === 'multiselect' ? 'select' : type;
+  if (v.kind !== expected) return 'Значение не подходит к типу критерия';
+  switch (v.kind) {
+    case 'rating':
+      return Number.isInteger(v.value) && v.value >= 1 && v.value <= 5 ? null : 'Оценка — целое число от 1 до 5';
+    case 'money':
+      if (!Number.isFinite(v.amount) || v.amount < 0) return 'Цена — неотрицательное число';
+      return /^[A-Z]{3}$/.test(v.currency) ? null : 'Валюта — трёхбуквенный код, например RUB';
+    case 'number':
+      return Number.isFinite(v.value) ? null : 'Нужно число';
+    case 'select': {
+      if (type === 'select' && v.values.length > 1) return 'Можно выбрать только один вариант';
+      const unknown = v.values.filter((x) => !(c?.options || []).includes(x));
+      return unknown.length ? `Нет такого варианта: ${unknown.join(', ')}` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+const BOOLEAN_WORDS: Record<string, 'yes' | 'no' | 'partial'> = {
+  'да': 'yes', 'yes': 'yes', 'true': 'yes', '+': 'yes', 'есть': 'yes',
+  'нет': 'no', 'no': 'no', 'false': 'no', '-': 'no',
+  'частично': 'partial', 'partial': 'partial',
+};
+
+const CURRENCY_SIGNS: Record<string, string> = { '₽': 'RUB', 'руб': 'RUB', 'р': 'RUB', '$': 'USD', '€': 'EUR', '₸': 'KZT' };
+
+// «1 000,50» → 1000.5; пробелы (\s ловит и неразрывные) — разделители тысяч
+const parseNumber = (s: string) => {
+  const m = s.replace(/\s/g, '').match(/^-?\d+(?:[.,]\d+)?/);
+  return m ? { value: Number(m[0].replace(',', '.')), rest: s.replace(/^\s*-?[\d\s]+(?:[.,]\d+)?/, '').trim() } : null;
+};
+
+// Обратное к formatValue: строка из таблицы → значение под тип критерия; undefined — не разобрали
+export function parseValue(c: Criterion | undefined, raw: string): CellValue | undefined {
+  const s = raw.trim();
+  if (!s) return undefined;
+  const type = valueTypeOf(c);
+  switch (type) {
+    case 'boolean': {
+      const b = BOOLEAN_WORDS[s.toLowerCase()];
+      return b && { kind: 'boolean', value: b };
+    }
+    case 'rating': {
+      const m = s.match(/^([1-5])(?:\s*\/\s*5)?$/);
+      return m ? { kind: 'rating', value: Number(m[1]) } : undefined;
+    }
+    case 'money': {
+      const n = parseNumber(s);
+      if (!n) return undefined;
+      const sign = n.rest.replace(/\.$/, '').toLowerCase();
+      const currency = !sign ? c?.currency || DEFAULT_CURRENCY : CURRENCY_SIGNS[sign] ?? (/^[a-z]{3}$/.test(sign) ? sign.toUpperCase() : undefined);
+      return currency ? { kind: 'money', amount: n.value, currency } : undefined;
+    }
+    case 'number': {
+      const n = parseNumber(s);
+      return n ? { kind: 'number', value: n.value, unit: n.rest || c?.unit } : undefined;
+    }
+    case 'select':
+    case 'multiselect': {
+      const options = c?.options || [];
+      const values = s.split(/\s*[,;]\s*/).filter(Boolean).map((v) => options.find((o) => o.toLowerCase() === v.toLowerCase()));
+      return values.length && values.every(Boolean) ? { kind: 'select', values: values as string[] } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
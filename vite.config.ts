@@ -1,9 +1,56 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'node:path'
+import fs from 'node:fs'
+
+const UPLOAD_TYPES: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif' }
+
+// заглушка хранилища скриншотов для локального бэкенда: POST /__uploads пишет файл в .uploads/, GET отдаёт его
+function localUploads(): Plugin {
+  const dir = path.resolve(__dirname, '.uploads')
+  return {
+    name: 'local-uploads',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const m = req.url?.match(/\/__uploads(?:\/([\w.-]+))?(?:\?.*)?$/)
+        if (!m) return next()
+        if (req.method === 'POST') {
+          const chunks: Buffer[] = []
+          req.on('data', (c: Buffer) => chunks.push(c))
+          req.on('end', () => {
+            const ext = UPLOAD_TYPES[String(req.headers['content-type'])] || 'bin'
+            let original = String(req.headers['x-file-name'] || 'image')
+            try { original = decodeURIComponent(original) } catch { /* битое %-кодирование — берём как есть, ниже всё равно чистим */ }
+            const base = original.replace(/\.[^.]*$/, '').replace(/[^\w-]+/g, '_').slice(0, 40)
+            const name = `${Date.now()}-${base}.${ext}`
+            fs.mkdirSync(dir, { recursive: true })
+            fs.writeFileSync(path.join(dir, name), Buffer.concat(chunks))
+            res.setHeader('Content-Type', 'application/json')
+            res.end(JSON.stringify({ ok: true, url: `${server.config.base}__uploads/${name}` }))
+          })
+          return
+        }
+        const notFound = () => {
+          res.statusCode = 404
+          res.end()
+        }
+        // имена с точки ('.', '..', скрытые файлы) не наши — наружу из .uploads/ не выходим
+        const file = m[1] && !m[1].startsWith('.') ? path.join(dir, m[1]) : ''
+        if (req.method !== 'GET' || !file || !fs.existsSync(file)) return notFound()
+        const type = Object.keys(UPLOAD_TYPES).find((t) => file.endsWith(`.${UPLOAD_TYPES[t]}`))
+        // ошибка чтения (каталог, файл удалили) не должна ронять dev-сервер
+        fs.createReadStream(file)
+          .on('open', () => { if (type) res.setHeader('Content-Type', type) })
+          .on('error', () => { if (!res.headersSent) notFound(); else res.destroy() })
+          .pipe(res)
+      })
+    },
+  }
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), localUploads()],
   base: '/competitor-matrix/',   // для GitHub Pages
   resolve: {
     alias: {